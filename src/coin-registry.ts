@@ -0,0 +1,144 @@
+/**
+ * Coin Registry - resolves decimals, symbols and Scallop pool names for coin types
+ *
+ * Sources: the Scallop SDK's pool registry (pool name, symbol, decimals) and the
+ * coin's on-chain metadata. Results are cached in memory and on disk for `ttlMs`.
+ * Coins neither source knows about are an error, never a guess.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { Scallop } from '@scallop-io/sui-scallop-sdk';
+import type { CoinInfo } from './types.js';
+
+export const DEFAULT_COIN_CACHE_PATH = '.sliq-cache/coins.json';
+export const DEFAULT_COIN_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface CoinRegistryOptions {
+  cachePath?: string | null;    // JSON cache file; null keeps the cache in memory only
+  ttlMs?: number;               // How long a resolved coin is trusted (default 24h)
+}
+
+interface CacheEntry {
+  coin: CoinInfo;
+  resolvedAt: number;           // Epoch ms
+}
+
+/**
+ * Normalize a coin type as found on-chain (with or without 0x, short or long address)
+ */
+export function normalizeCoinType(coinType: string): string {
+  return normalizeStructTag(coinType.startsWith('0x') ? coinType : `0x${coinType}`);
+}
+
+export class CoinRegistry {
+  private scallop: Scallop;
+  private cachePath: string | null;
+  private ttlMs: number;
+  private entries?: Record<string, CacheEntry>;
+  private pending = new Map<string, Promise<CoinInfo>>();
+  private warned = false;
+
+  constructor(scallop: Scallop, options: CoinRegistryOptions = {}) {
+    this.scallop = scallop;
+    this.cachePath = options.cachePath === undefined ? DEFAULT_COIN_CACHE_PATH : options.cachePath;
+    this.ttlMs = options.ttlMs ?? DEFAULT_COIN_CACHE_TTL_MS;
+  }
+
+  /**
+   * Resolve a coin by its full type
+   * Throws when neither the Scallop registry nor the chain knows the coin
+   */
+  async resolve(coinType: string): Promise<CoinInfo> {
+    const key = normalizeCoinType(coinType);
+    const entry = this.load()[key];
+    if (entry && Date.now() - entry.resolvedAt < this.ttlMs) {
+      return entry.coin;
+    }
+
+    // Concurrent lookups of the same coin share one request
+    let lookup = this.pending.get(key);
+    if (!lookup) {
+      lookup = this.fetch(key).finally(() => this.pending.delete(key));
+      this.pending.set(key, lookup);
+    }
+    return lookup;
+  }
+
+  /**
+   * Resolve a coin by its Scallop SDK name (e.g. "usdc")
+   */
+  async resolveByName(coinName: string): Promise<CoinInfo> {
+    const utils = await this.scallop.createScallopUtils();
+    const coinType = utils.parseCoinType(coinName);
+    if (!coinType) {
+      throw new Error(`Unknown coin "${coinName}": not in the Scallop coin registry`);
+    }
+    return this.resolve(coinType);
+  }
+
+  private async fetch(coinType: string): Promise<CoinInfo> {
+    const [utils, builder] = await Promise.all([
+      this.scallop.createScallopUtils(),
+      this.scallop.createScallopBuilder(),
+    ]);
+
+    const pool = Object.values(utils.constants.poolAddresses)
+      .find(candidate => candidate && normalizeCoinType(candidate.coinType) === coinType);
+
+    let metadata: Awaited<ReturnType<typeof builder.suiKit.client.getCoinMetadata>> = null;
+    try {
+      metadata = await builder.suiKit.client.getCoinMetadata({ coinType });
+    } catch (error) {
+      if (!pool) {
+        throw new Error(`Cannot resolve coin ${coinType}: metadata query failed (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+
+    if (!pool && !metadata) {
+      throw new Error(`Cannot resolve coin ${coinType}: not a Scallop pool and no on-chain coin metadata`);
+    }
+
+    const coin: CoinInfo = {
+      coinType,
+      coinName: pool?.coinName ?? utils.parseCoinNameFromType(coinType),
+      symbol: pool?.symbol || metadata!.symbol,
+      displayName: metadata?.name || pool!.symbol,
+      decimals: metadata?.decimals ?? pool!.decimals,
+      listed: pool !== undefined,
+    };
+
+    this.load()[coinType] = { coin, resolvedAt: Date.now() };
+    this.save();
+    return coin;
+  }
+
+  private load(): Record<string, CacheEntry> {
+    if (!this.entries) {
+      this.entries = {};
+      if (this.cachePath && existsSync(this.cachePath)) {
+        try {
+          this.entries = JSON.parse(readFileSync(this.cachePath, 'utf8')) as Record<string, CacheEntry>;
+        } catch {
+          // A corrupt cache is rebuilt from scratch
+        }
+      }
+    }
+    return this.entries;
+  }
+
+  // The cache only saves lookups; one that can't be written is reported once and kept in memory
+  private save(): void {
+    if (!this.cachePath) return;
+    try {
+      mkdirSync(dirname(this.cachePath), { recursive: true });
+      writeFileSync(this.cachePath, JSON.stringify(this.entries, null, 2) + '\n');
+    } catch (error) {
+      if (!this.warned) {
+        this.warned = true;
+        console.warn(`⚠️  Cannot write coin cache ${this.cachePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Command-line argument helpers
+ */
+
+import { readFileSync } from 'node:fs';
+
+/**
+ * Get the value following a flag (e.g. `--limit 20`), or undefined if the flag is absent
+ */
+export function getFlagValue(args: string[], ...names: string[]): string | undefined {
+  for (const name of names) {
+    const index = args.indexOf(name);
+    if (index !== -1) {
+      const value = args[index + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${name}`);
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get a positive integer flag value, falling back to a default when absent
+ */
+export function getNumberFlag(args: string[], name: string, defaultValue?: number): number | undefined {
+  const value = getFlagValue(args, name);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid value for ${name}: "${value}". Expected a positive integer.`);
+  }
+  return parsed;
+}
+
+/**
+ * Get a non-negative integer flag value, for counts where 0 is meaningful (e.g. `--rpc-retries 0`)
+ */
+export function getIntegerFlag(args: string[], name: string, defaultValue?: number): number | undefined {
+  const value = getFlagValue(args, name);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid value for ${name}: "${value}". Expected a non-negative integer.`);
+  }
+  return parsed;
+}
+
+/**
+ * Get a non-negative decimal flag value (e.g. `--min-profit 0.5`), falling back to a default
+ */
+export function getDecimalFlag(args: string[], name: string, defaultValue?: number): number | undefined {
+  const value = getFlagValue(args, name);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid value for ${name}: "${value}". Expected a non-negative number.`);
+  }
+  return parsed;
+}
+
+/**
+ * Obligation IDs are Sui object IDs: 0x followed by 64 hex characters
+ */
+export function isObligationId(value: string): boolean {
+  return value.startsWith('0x') && value.length === 66;
+}
+
+/**
+ * Read obligation IDs from a file ("-" = stdin): one per line, blank lines and # comments ignored
+ */
+export function readObligationList(path: string): string[] {
+  const ids = readFileSync(path === '-' ? 0 : path, 'utf8')
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(line => line.length > 0);
+
+  const invalid = ids.filter(id => !isObligationId(id));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid obligation ID(s) in ${path === '-' ? 'stdin' : path}: ${invalid.join(', ')}`);
+  }
+  return ids;
+}
@@ -0,0 +1,274 @@
+/**
+ * `sliq batch <file|->` - check, execute or force a list of obligations with one SDK instance
+ */
+
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator, isBadDebt } from '../liquidator.js';
+import { LiquidationErrorCode } from '../errors.js';
+import type { LiquidationPlan, LiquidationRequest, LiquidationResult } from '../types.js';
+import { mapWithConcurrency } from '../utils.js';
+import { readObligationList } from './args.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource, describeWallet, requireSigningKey } from './config-flags.js';
+import { parseMode, type Mode } from './obligation.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type BatchEntry, type BatchReport, type ObligationStatus } from './output.js';
+import { parseSwapFlags } from './swap-flags.js';
+
+interface BatchContext {
+  mode: Mode;
+  simulateOnly: boolean;
+  flashLoan: boolean;
+  swapTo?: string;
+  // Transactions run one at a time so they don't compete for the same wallet coins
+  executeInTurn: <T>(fn: () => Promise<T>) => Promise<T>;
+  // With --bundle, liquidations are collected here and sent together once every obligation is checked
+  bundle?: Map<string, { request: LiquidationRequest; plan: LiquidationPlan }>;
+}
+
+export async function runBatch(args: string[]): Promise<number> {
+  const source = args[0];
+  if (!source || source.startsWith('--')) {
+    throw new Error('Missing obligation list. Usage: pnpm sliq batch <file|-> [options]');
+  }
+
+  const json = args.includes('--json');
+  const simulateOnly = args.includes('--simulate');
+  const flashLoan = args.includes('--flashloan');
+  const requestedMode = parseMode(args);
+  // --simulate on its own rehearses the execute flow
+  const mode = simulateOnly && requestedMode === 'check' ? 'execute' : requestedMode;
+  const bundle = args.includes('--bundle');
+  const config = loadConfigFromArgs(args);
+  const { concurrency, maxCallsPerTx } = config;
+  if (mode !== 'check' && !simulateOnly) {
+    requireSigningKey(config, `--${mode}`, 'add --simulate to dry-run the batch');
+  }
+
+  // Duplicates would be liquidated twice
+  const obligationIds = [...new Set(readObligationList(source))];
+  if (obligationIds.length === 0) {
+    throw new Error(`No obligation IDs in ${source === '-' ? 'stdin' : source}`);
+  }
+
+  const configSource = describeConfigSource(config);
+  console.log(`Initializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+  console.log(`Wallet: ${describeWallet(config)}`);
+  const scallop = await createScallopSDK(config);
+  const { liquidatorOptions, swapTo } = await parseSwapFlags(args, scallop);
+  const liquidator = new ScallopLiquidator(scallop, { ...liquidatorSettings(config), ...liquidatorOptions });
+
+  const modeLabel = (mode === 'force' ? 'FORCE' : mode.toUpperCase()) + (simulateOnly ? ' (SIMULATE)' : '');
+  const bundleLabel = bundle && mode !== 'check' ? `, up to ${maxCallsPerTx} liquidations per transaction` : '';
+  console.log(`\n[BATCH ${modeLabel} MODE] ${obligationIds.length} obligations, ${concurrency} in parallel${bundleLabel}`);
+  console.log('─'.repeat(70));
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const context: BatchContext = {
+    mode,
+    simulateOnly,
+    flashLoan,
+    swapTo,
+    executeInTurn: fn => {
+      const run = queue.then(fn);
+      queue = run.catch(() => undefined);
+      return run;
+    },
+    bundle: bundle && mode !== 'check' ? new Map() : undefined,
+  };
+
+  const entries = await mapWithConcurrency(obligationIds, concurrency, async obligationId => {
+    let entry: BatchEntry;
+    try {
+      entry = await processObligation(liquidator, obligationId, context);
+    } catch (error) {
+      entry = { obligationId, status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+    if (!context.bundle?.has(obligationId)) {
+      printProgress(entry);
+    }
+    return entry;
+  });
+
+  if (context.bundle && context.bundle.size > 0) {
+    const queued = [...context.bundle.values()];
+    console.log(`\n${simulateOnly ? '🧪 Simulating' : '🚀 Sending'} ${queued.length} liquidations in bundles of up to ${maxCallsPerTx}...`);
+    const results = await liquidator.liquidateMany(queued.map(({ request }) => request), { simulateOnly, swapTo, maxCallsPerTx });
+    for (const [i, result] of results.entries()) {
+      const index = entries.findIndex(entry => entry.obligationId === result.obligationId);
+      entries[index] = { ...withLiquidationResult(entries[index], result, queued[i].plan), bundled: result.bundled };
+      printProgress(entries[index]);
+    }
+  }
+
+  const summary = summarize(entries);
+
+  console.log('\n📋 Results:');
+  printBatchTable(entries);
+
+  console.log('\n' + '─'.repeat(70));
+  console.log('\n📊 Batch Summary:');
+  console.log(`   Obligations: ${entries.length}`);
+  console.log(`   ${simulateOnly ? 'Simulated' : 'Liquidated'}: ${summary.liquidated}`);
+  if (mode === 'check') {
+    console.log(`   Liquidatable: ${summary.liquidatable}`);
+  }
+  console.log(`   Skipped: ${summary.skipped}`);
+  console.log(`   Bad debt: ${summary.badDebt}`);
+  console.log(`   Failed: ${summary.failed}`);
+  console.log(`   Errors: ${summary.errors}`);
+  console.log(`   Total estimated profit: $${summary.estimatedProfitUsd.toFixed(2)}`);
+  if (mode !== 'check') {
+    console.log(simulateOnly
+      ? `   Total simulated profit: $${summary.realisedProfitUsd.toFixed(2)} (gas from simulation)`
+      : `   Total realised profit: $${summary.realisedProfitUsd.toFixed(2)} (from the executed transactions)`);
+  }
+
+  const exitCode = summary.failed > 0 ? EXIT_CODES.failed : summary.errors > 0 ? EXIT_CODES.error : EXIT_CODES.succeeded;
+  if (json) {
+    const report: BatchReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'batch',
+      mode,
+      simulate: simulateOnly,
+      exitCode,
+      summary,
+      entries,
+    };
+    writeJson(report);
+  }
+  return exitCode;
+}
+
+/**
+ * Apply the single-obligation check/execute/force flow to one obligation, without the detailed output
+ */
+async function processObligation(liquidator: ScallopLiquidator, obligationId: string, context: BatchContext): Promise<BatchEntry> {
+  const { mode, simulateOnly, flashLoan, swapTo } = context;
+  const info = await liquidator.queryObligation(obligationId);
+  const entry: BatchEntry = { obligationId, status: 'not_liquidatable', riskLevel: info.riskLevel };
+
+  if (isBadDebt(info)) {
+    if (mode !== 'force') {
+      return { ...entry, status: 'bad_debt' };
+    }
+    const debt = info.debts[0];
+    const result = await context.executeInTurn(() =>
+      liquidator.repayBadDebt(obligationId, debt.coinName, BigInt(debt.amount), { simulateOnly })
+    );
+    return withResult({ ...entry, debtCoinName: debt.coinName }, result);
+  }
+
+  if ((!info.isLiquidatable && mode !== 'force') || info.debts.length === 0 || info.collaterals.length === 0) {
+    return entry;
+  }
+
+  const plan = await liquidator.planLiquidation(info, {}, { flashLoan, swapTo });
+  if (!plan) {
+    throw new Error('No allowed debt/collateral pair with a Scallop risk model found');
+  }
+  entry.debtCoinName = plan.debt.coinName;
+  entry.collateralCoinName = plan.collateral.coinName;
+  entry.repayAmount = plan.repayAmount.toString();
+  entry.estimatedProfitUsd = plan.estimatedProfitUsd;
+
+  if (mode === 'check') {
+    return { ...entry, status: 'liquidatable' };
+  }
+  if (mode === 'execute' && !plan.profitable) {
+    return { ...entry, status: 'not_profitable' };
+  }
+  if (plan.repayAmount === 0n) {
+    return { ...entry, status: 'failed', error: `Nothing to repay (limited by ${plan.limitedBy})` };
+  }
+
+  const request: LiquidationRequest = {
+    obligationId,
+    debtCoinName: plan.debt.coinName,
+    collateralCoinName: plan.collateral.coinName,
+    repayAmount: plan.repayAmount,
+    flashLoan: plan.funding === 'flashloan',
+    // Force mode skips the profit re-check after simulation
+    profit: mode === 'execute' ? plan.profit : undefined,
+  };
+  if (context.bundle) {
+    context.bundle.set(obligationId, { request, plan });
+    return { ...entry, status: 'liquidatable' };
+  }
+
+  const result = await context.executeInTurn(() =>
+    liquidator.liquidate(obligationId, request.debtCoinName, request.collateralCoinName, request.repayAmount, {
+      simulateOnly,
+      flashLoan: request.flashLoan,
+      swapTo,
+      profit: request.profit,
+    })
+  );
+  return withLiquidationResult(entry, result, plan);
+}
+
+function withLiquidationResult(entry: BatchEntry, result: LiquidationResult, plan: LiquidationPlan): BatchEntry {
+  const withProfit = withResult(entry, result);
+  if (result.success) {
+    withProfit.realisedProfitUsd = result.effects?.realisedProfitUsd ?? (result.profit ?? plan.profit).netProfitUsd;
+  }
+  return withProfit;
+}
+
+function withResult(entry: BatchEntry, result: LiquidationResult): BatchEntry {
+  const status: ObligationStatus = result.simulated
+    ? 'simulated'
+    : result.success
+      ? 'succeeded'
+      : result.errorCode === LiquidationErrorCode.NotProfitable ? 'not_profitable' : 'failed';
+  return {
+    ...entry,
+    status,
+    txDigest: result.txDigest,
+    errorCode: result.errorCode,
+    error: result.error,
+  };
+}
+
+function summarize(entries: BatchEntry[]): BatchReport['summary'] {
+  const count = (...statuses: ObligationStatus[]) => entries.filter(entry => statuses.includes(entry.status)).length;
+  return {
+    obligations: entries.length,
+    liquidated: count('succeeded', 'simulated'),
+    liquidatable: count('liquidatable'),
+    skipped: count('not_liquidatable', 'not_profitable'),
+    badDebt: count('bad_debt'),
+    failed: count('failed'),
+    errors: count('error'),
+    estimatedProfitUsd: entries.reduce((sum, entry) => sum + (entry.estimatedProfitUsd ?? 0), 0),
+    realisedProfitUsd: entries.reduce((sum, entry) => sum + (entry.realisedProfitUsd ?? 0), 0),
+  };
+}
+
+function printProgress(entry: BatchEntry) {
+  console.log(`   ${formatStatus(entry.status)} ${entry.obligationId}${entry.error ? ` - ${entry.error}` : ''}`);
+}
+
+function formatStatus(status: ObligationStatus): string {
+  switch (status) {
+    case 'succeeded': return '✅';
+    case 'simulated': return '🧪';
+    case 'liquidatable': return '💰';
+    case 'bad_debt': return '🚨';
+    case 'failed': return '❌';
+    case 'error': return '❗';
+    default: return '➖';
+  }
+}
+
+function printBatchTable(entries: BatchEntry[]) {
+  console.log(`   ${'Obligation'.padEnd(66)}  ${'Risk'.padStart(10)}  ${'Pair'.padEnd(18)}  ${'Est. profit'.padStart(11)}  Status`);
+  for (const entry of entries) {
+    const risk = entry.riskLevel === undefined ? '-' : `${(entry.riskLevel * 100).toFixed(2)}%`;
+    const pair = entry.debtCoinName ? `${entry.debtCoinName} → ${entry.collateralCoinName ?? '-'}` : '-';
+    const profit = entry.estimatedProfitUsd === undefined ? '-' : `$${entry.estimatedProfitUsd.toFixed(2)}`;
+    const detail = entry.txDigest ?? entry.errorCode ?? '';
+    console.log(
+      `   ${entry.obligationId.padEnd(66)}  ${risk.padStart(10)}  ${pair.padEnd(18)}  ${profit.padStart(11)}  ` +
+      `${formatStatus(entry.status)} ${entry.status}${detail ? ` (${detail})` : ''}`
+    );
+  }
+}
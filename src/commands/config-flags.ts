@@ -0,0 +1,97 @@
+/**
+ * `--config`, `--profile`, the flags that override sliq.config.json settings, and the key flags
+ */
+
+import { loadConfig } from '../config.js';
+import { parseSettingText } from '../config-schema.js';
+import { Journal } from '../journal.js';
+import { createNotificationDispatcher } from '../notify.js';
+import type { LiquidatorOptions } from '../liquidator.js';
+import type { Config } from '../types.js';
+import { getFlagValue, getNumberFlag, getIntegerFlag, getDecimalFlag } from './args.js';
+
+export function loadConfigFromArgs(args: string[]): Config {
+  const list = (name: string, key: 'allowCoins' | 'denyCoins' | 'maxRepay' | 'rpcFallbackUrls') => {
+    const value = getFlagValue(args, name);
+    return value === undefined ? undefined : parseSettingText(key, value);
+  };
+
+  return loadConfig({
+    configPath: getFlagValue(args, '--config'),
+    profile: getFlagValue(args, '--profile'),
+    overrides: {
+      rpcUrl: getFlagValue(args, '--rpc'),
+      rpcFallbackUrls: list('--rpc-fallback', 'rpcFallbackUrls'),
+      rpcRateLimit: getNumberFlag(args, '--rpc-rate-limit'),
+      rpcTimeoutMs: getNumberFlag(args, '--rpc-timeout'),
+      rpcMaxRetries: getIntegerFlag(args, '--rpc-retries'),
+      minProfitUsd: getDecimalFlag(args, '--min-profit'),
+      minProfitBps: getDecimalFlag(args, '--min-profit-bps'),
+      slippageBps: getDecimalFlag(args, '--slippage'),
+      maxRepay: list('--max-repay', 'maxRepay'),
+      allowCoins: list('--allow-coins', 'allowCoins'),
+      denyCoins: list('--deny-coins', 'denyCoins'),
+      concurrency: getNumberFlag(args, '--concurrency'),
+      intervalSec: getNumberFlag(args, '--interval'),
+      maxBackoffSec: getNumberFlag(args, '--max-backoff'),
+      scanMinRisk: getDecimalFlag(args, '--scan-min-risk'),
+      maxCallsPerTx: getNumberFlag(args, '--max-calls-per-tx'),
+      journalPath: args.includes('--no-journal') ? '' : getFlagValue(args, '--journal'),
+      notifications: args.includes('--no-notify') ? [] : undefined,
+      metricsPort: getIntegerFlag(args, '--metrics-port'),
+      metricsHost: getFlagValue(args, '--metrics-host'),
+    },
+    key: {
+      keystorePath: getFlagValue(args, '--keystore'),
+      address: getFlagValue(args, '--address'),
+      watchOnly: args.includes('--watch-only'),
+    },
+  });
+}
+
+/**
+ * The liquidator's share of the settings: profit thresholds, slippage, repay caps, coin lists, the journal and alerts
+ */
+export function liquidatorSettings(config: Config): LiquidatorOptions {
+  return {
+    slippageBps: config.slippageBps,
+    minProfitUsd: config.minProfitUsd,
+    minProfitBps: config.minProfitBps,
+    maxRepay: config.maxRepay,
+    allowCoins: config.allowCoins,
+    denyCoins: config.denyCoins,
+    wallet: config.wallet,
+    journal: config.journalPath ? new Journal(config.journalPath) : undefined,
+    notifications: config.notifications.length > 0 ? createNotificationDispatcher(config.notifications) : undefined,
+  };
+}
+
+/**
+ * Refuse a mode that signs transactions when no key is loaded
+ */
+export function requireSigningKey(config: Config, action: string, alternative: string): void {
+  if (config.wallet === 'sign') return;
+  throw new Error(
+    `${action} needs a signing key, but none is loaded (watch-only). ` +
+    `Set PRIVATE_KEY, MNEMONIC or --keystore, or ${alternative}.`
+  );
+}
+
+/**
+ * The wallet in use, e.g. "0x12…cdef (keystore)" or "watch-only, no address"
+ */
+export function describeWallet(config: Config): string {
+  const address = config.walletAddress && `${config.walletAddress.slice(0, 6)}…${config.walletAddress.slice(-4)}`;
+  if (config.keySource === 'watch-only') {
+    return address ? `watch-only, ${address}` : 'watch-only, no address (repay amounts are not capped by a balance)';
+  }
+  return `${address} (${config.keySource})`;
+}
+
+/**
+ * One line saying where the settings came from, e.g. "sliq.config.json, profile conservative"
+ */
+export function describeConfigSource(config: Config): string | undefined {
+  if (!config.configPath) return undefined;
+  return config.profile ? `${config.configPath}, profile ${config.profile}` : config.configPath;
+}
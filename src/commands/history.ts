@@ -0,0 +1,146 @@
+/**
+ * `sliq history` - list journaled attempts and summarise realised profit, success rate and gas
+ */
+
+import { Journal, summarizeJournal, type JournalFilter, type JournalSummary } from '../journal.js';
+import type { JournalEntry, JournalOutcome } from '../types.js';
+import { getFlagValue, getNumberFlag } from './args.js';
+import { loadConfigFromArgs } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type HistoryReport } from './output.js';
+
+const OUTCOMES: JournalOutcome[] = ['liquidatable', 'not_liquidatable', 'simulated', 'exported', 'succeeded', 'not_profitable', 'failed'];
+const KINDS: JournalEntry['kind'][] = ['check', 'liquidate', 'repay', 'submit'];
+
+const DURATION_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export async function runHistory(args: string[]): Promise<number> {
+  const limit = getNumberFlag(args, '--limit', 20)!;
+  const json = args.includes('--json');
+
+  const config = loadConfigFromArgs(args);
+  if (!config.journalPath) {
+    throw new Error('The journal is turned off (journalPath is empty); nothing has been recorded');
+  }
+
+  const filter: JournalFilter = {
+    since: parseTime(args, '--since'),
+    until: parseTime(args, '--until'),
+    coin: getFlagValue(args, '--coin'),
+    outcomes: parseList(args, '--outcome', OUTCOMES),
+    kinds: parseList(args, '--kind', KINDS),
+  };
+  const entries = new Journal(config.journalPath).read(filter);
+  const summary = summarizeJournal(entries);
+
+  const range = [filter.since && `since ${filter.since.toISOString()}`, filter.until && `until ${filter.until.toISOString()}`]
+    .filter(Boolean).join(', ');
+  console.log(`\n[HISTORY] ${config.journalPath}${range ? `, ${range}` : ''}${filter.coin ? `, ${filter.coin} only` : ''}`);
+  console.log('─'.repeat(70));
+
+  // Checks are only listed when asked for; they are counted in the summary either way
+  const listed = filter.kinds?.includes('check') ? entries : entries.filter(entry => entry.kind !== 'check');
+  const latest = listed.slice(-limit);
+  console.log(`\n📜 ${latest.length < listed.length ? `Latest ${latest.length} of ${listed.length}` : listed.length} entries:`);
+  printEntries(latest);
+
+  console.log('\n' + '─'.repeat(70));
+  printSummary(summary);
+
+  if (json) {
+    const report: HistoryReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'history',
+      journal: config.journalPath,
+      exitCode: EXIT_CODES.succeeded,
+      filter: {
+        since: filter.since?.toISOString() ?? null,
+        until: filter.until?.toISOString() ?? null,
+        coin: filter.coin ?? null,
+        outcomes: filter.outcomes ?? null,
+        kinds: filter.kinds ?? null,
+      },
+      summary,
+      entries,
+    };
+    writeJson(report);
+  }
+  return EXIT_CODES.succeeded;
+}
+
+/**
+ * A date (2026-01-31, 2026-01-31T12:00Z) or a duration back from now (30m, 24h, 7d)
+ */
+function parseTime(args: string[], name: string): Date | undefined {
+  const value = getFlagValue(args, name);
+  if (value === undefined) return undefined;
+
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  if (duration) {
+    return new Date(Date.now() - Number(duration[1]) * DURATION_MS[duration[2]]);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name}: ${value}. Use a date (2026-01-31, 2026-01-31T12:00Z) or a duration (30m, 24h, 7d)`);
+  }
+  return new Date(time);
+}
+
+function parseList<T extends string>(args: string[], name: string, allowed: T[]): T[] | undefined {
+  const value = getFlagValue(args, name);
+  if (value === undefined) return undefined;
+
+  const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  const unknown = items.filter(item => !allowed.includes(item as T));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid ${name}: ${unknown.join(', ')}. Expected one of: ${allowed.join(', ')}`);
+  }
+  return items as T[];
+}
+
+function printEntries(entries: JournalEntry[]) {
+  if (entries.length === 0) {
+    console.log('   (none)');
+    return;
+  }
+
+  console.log(
+    `   ${'Time'.padEnd(19)}  ${'Kind'.padEnd(9)}  ${'Obligation'.padEnd(13)}  ${'Pair'.padEnd(16)}  ` +
+    `${'Outcome'.padEnd(16)}  ${'Profit $'.padStart(9)}  Transaction / error`
+  );
+  for (const entry of entries) {
+    const pair = entry.collateralCoinName ? `${entry.debtCoinName} → ${entry.collateralCoinName}` : entry.debtCoinName ?? '-';
+    const profit = entry.profitUsd ?? entry.estimatedProfitUsd;
+    const detail = entry.txDigest ?? (entry.errorCode ? `${entry.errorCode}: ${entry.error}` : '');
+    console.log(
+      `   ${entry.time.slice(0, 19).replace('T', ' ')}  ${entry.kind.padEnd(9)}  ` +
+      `${`${entry.obligationId.slice(0, 6)}…${entry.obligationId.slice(-4)}`.padEnd(13)}  ${pair.padEnd(16)}  ` +
+      `${(entry.outcome + (entry.bundled ? ' (b)' : '')).padEnd(16)}  ` +
+      `${(profit === undefined ? '-' : profit.toFixed(2)).padStart(9)}  ${detail}`
+    );
+  }
+}
+
+function printSummary(summary: JournalSummary) {
+  const outcomes = Object.entries(summary.outcomes)
+    .filter(([outcome]) => !['liquidatable', 'not_liquidatable'].includes(outcome))
+    .map(([outcome, count]) => `${outcome} ${count}`);
+
+  console.log('\n📊 Summary:');
+  console.log(`   Checks: ${summary.checks} (${summary.outcomes.liquidatable ?? 0} liquidatable and profitable)`);
+  console.log(`   Attempts: ${summary.attempts}${outcomes.length > 0 ? ` (${outcomes.join(', ')})` : ''}`);
+  console.log(`   Success rate: ${summary.successRate === null ? '-' : `${(summary.successRate * 100).toFixed(1)}%`}`);
+  console.log(`   Realised profit: $${summary.realisedProfitUsd.toFixed(2)}`);
+  console.log(`   Gas spent: ${(summary.gasSpentMist / 1e9).toFixed(6)} SUI`);
+
+  const coins = Object.entries(summary.coins);
+  if (coins.length > 0) {
+    console.log('\n💰 By debt coin:');
+    console.log(`   ${'Coin'.padEnd(10)}  ${'Attempts'.padStart(8)}  ${'Succeeded'.padStart(9)}  ${'Profit $'.padStart(10)}`);
+    for (const [coinName, coin] of coins.sort(([, a], [, b]) => b.profitUsd - a.profitUsd)) {
+      console.log(
+        `   ${coinName.padEnd(10)}  ${String(coin.attempts).padStart(8)}  ${String(coin.succeeded).padStart(9)}  ` +
+        `${coin.profitUsd.toFixed(2).padStart(10)}`
+      );
+    }
+  }
+}
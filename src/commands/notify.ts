@@ -0,0 +1,103 @@
+/**
+ * `sliq notify` - send a sample notification to every configured channel, to check the setup
+ */
+
+import { LiquidationErrorCode } from '../errors.js';
+import { createNotificationDispatcher, notificationSeverity, NOTIFICATION_TYPES } from '../notify.js';
+import type { CoinInfo, LiquidationResult, Notification, NotificationType, ObligationInfo } from '../types.js';
+import { getFlagValue } from './args.js';
+import { loadConfigFromArgs, describeConfigSource } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type NotifyReport } from './output.js';
+
+// Made-up values, so a sample can't be mistaken for a real alert
+const SAMPLE_OBLIGATION_ID = '0x' + '0'.repeat(60) + 'cafe';
+const SAMPLE_DIGEST = 'SampLeTxDigest1111111111111111111111111111111';
+
+const USDC: CoinInfo = { coinType: '0x…::usdc::USDC', coinName: 'usdc', symbol: 'USDC', displayName: 'USD Coin', decimals: 6, listed: true };
+const SUI: CoinInfo = { coinType: '0x2::sui::SUI', coinName: 'sui', symbol: 'SUI', displayName: 'Sui', decimals: 9, listed: true };
+
+export async function runNotify(args: string[]): Promise<number> {
+  const json = args.includes('--json');
+  const type = (getFlagValue(args, '--type') ?? 'liquidation_failed') as NotificationType;
+  if (!NOTIFICATION_TYPES.includes(type)) {
+    throw new Error(`Invalid --type: ${type}. Expected one of: ${NOTIFICATION_TYPES.join(', ')}`);
+  }
+
+  const config = loadConfigFromArgs(args);
+  if (config.notifications.length === 0) {
+    throw new Error('No notification channels configured: add "notifications" to the settings file or set SLIQ_NOTIFY');
+  }
+
+  const configSource = describeConfigSource(config);
+  const dispatcher = createNotificationDispatcher(config.notifications);
+  console.log(`\n[NOTIFY] Sending a sample ${type} notification${configSource ? ` (settings from ${configSource})` : ''}`);
+  console.log('─'.repeat(70));
+
+  const results = await dispatcher.test(sampleNotification(type));
+  for (const result of results) {
+    console.log(result.error ? `   ❌ ${result.channel}: ${result.error}` : `   ✅ ${result.channel}`);
+  }
+
+  const failed = results.filter(result => result.error).length;
+  console.log('\n' + '─'.repeat(70));
+  console.log(failed === 0 ? `\n✅ Delivered to all ${results.length} channels` : `\n❌ ${failed} of ${results.length} channels failed`);
+
+  const exitCode = failed === 0 ? EXIT_CODES.succeeded : EXIT_CODES.error;
+  if (json) {
+    const report: NotifyReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'notify',
+      type,
+      exitCode,
+      channels: results.map(result => ({ channel: result.channel, delivered: !result.error, error: result.error ?? null })),
+    };
+    writeJson(report);
+  }
+  return exitCode;
+}
+
+function sampleNotification(type: NotificationType): Notification {
+  const obligation: ObligationInfo = {
+    obligationId: SAMPLE_OBLIGATION_ID,
+    debts: [{
+      coinType: USDC.coinType, coinName: 'usdc', coinSymbol: 'USDC', coinDisplayName: USDC.displayName,
+      amount: 250_000_000, amountCoin: 250, valueUsd: 250,
+    }],
+    collaterals: type === 'bad_debt' ? [] : [{
+      coinType: SUI.coinType, coinName: 'sui', coinSymbol: 'SUI', coinDisplayName: SUI.displayName,
+      amount: 80_000_000_000, amountCoin: 80, valueUsd: 264,
+    }],
+    riskLevel: type === 'bad_debt' ? Infinity : 1.04,
+    totalBorrowedValueWithWeight: 250,
+    totalRequiredCollateralValue: 240,
+    isLiquidatable: true,
+  };
+
+  const result: LiquidationResult = type === 'liquidation_succeeded'
+    ? {
+      success: true,
+      funding: 'wallet',
+      txDigest: SAMPLE_DIGEST,
+      repaidAmount: '125000000',
+      collateralReceived: '39800000000',
+      effects: { gasCostMist: 4_200_000, balanceChanges: [], realisedProfitUsd: 5.71 },
+    }
+    : {
+      success: false,
+      funding: 'wallet',
+      error: 'Wallet holds 12.5 USDC, 125 USDC needed',
+      errorCode: LiquidationErrorCode.InsufficientBalance,
+    };
+
+  const isAttempt = type === 'liquidation_succeeded' || type === 'liquidation_failed';
+  return {
+    type,
+    severity: notificationSeverity(type, isAttempt ? result : undefined),
+    obligationId: SAMPLE_OBLIGATION_ID,
+    obligation: isAttempt ? undefined : obligation,
+    attempt: isAttempt
+      ? { kind: 'liquidate', debtCoin: USDC, collateralCoin: SUI, repayAmount: '125000000', estimatedProfitUsd: 5.9, result }
+      : undefined,
+    test: true,
+  };
+}
@@ -0,0 +1,560 @@
+/**
+ * `sliq <obligation_id>` - check, execute or force a single liquidation
+ */
+
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator, isBadDebt } from '../liquidator.js';
+import { LiquidationErrorCode, formatMoveAbort } from '../errors.js';
+import type { CoinInfo, CollateralInfo, DebtInfo, LiquidationCandidate, LiquidationResult, PairSelection, ProfitBreakdown, SimulationResult } from '../types.js';
+import { UNSIGNED_TX_VERSION, writeUnsignedTx, type UnsignedTxFile } from '../unsigned-tx.js';
+import { getFlagValue, isObligationId } from './args.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource, describeWallet, requireSigningKey } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type ObligationReport, type ObligationStatus } from './output.js';
+import { parseSwapFlags } from './swap-flags.js';
+
+export type Mode = 'check' | 'execute' | 'force';
+
+interface RunContext {
+  obligationId: string;
+  mode: Mode;
+  simulateOnly: boolean;
+  flashLoan: boolean;
+  selection: PairSelection;
+  swapTo?: string;
+  exportPath?: string;          // --export-unsigned: write the transaction here instead of signing it
+}
+
+export function parseMode(args: string[]): Mode {
+  if (args.includes('--force') || args.includes('-f')) return 'force';
+  if (args.includes('--execute') || args.includes('-e')) return 'execute';
+  return 'check';
+}
+
+export async function runObligation(args: string[]): Promise<number> {
+  const obligationId = args[0];
+  const json = args.includes('--json');
+  const simulateOnly = args.includes('--simulate');
+  const flashLoan = args.includes('--flashloan');
+  const requestedMode = parseMode(args);
+  // --simulate on its own rehearses the execute flow
+  const mode = simulateOnly && requestedMode === 'check' ? 'execute' : requestedMode;
+  const exportPath = getFlagValue(args, '--export-unsigned');
+
+  const report: ObligationReport = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    command: 'obligation',
+    obligationId,
+    mode,
+    simulate: simulateOnly,
+    status: 'error',
+    exitCode: EXIT_CODES.error,
+    obligation: null,
+    pair: null,
+    profit: null,
+    result: null,
+  };
+
+  try {
+    // Validate obligation ID format
+    if (!isObligationId(obligationId)) {
+      throw new Error('Invalid obligation ID format. Expected 0x followed by 64 hex characters.');
+    }
+
+    const selection = {
+      debtCoinName: getFlagValue(args, '--debt'),
+      collateralCoinName: getFlagValue(args, '--collateral'),
+    };
+
+    const config = loadConfigFromArgs(args);
+    if (exportPath !== undefined) {
+      if (requestedMode === 'check' || simulateOnly) {
+        throw new Error('--export-unsigned goes with --execute or --force (it dry-runs the transaction itself)');
+      }
+      // The exported transaction is built for, and must be signed by, this address
+      if (config.wallet === 'none') {
+        throw new Error('--export-unsigned needs the signer\'s address: pass --address <0x...> (e.g. the multisig address)');
+      }
+    } else if (mode !== 'check' && !simulateOnly) {
+      requireSigningKey(config, `--${mode}`, 'add --simulate to dry-run it, or --export-unsigned <file> to sign elsewhere');
+    }
+    const configSource = describeConfigSource(config);
+    console.log(`Initializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+    console.log(`Wallet: ${describeWallet(config)}`);
+    const scallop = await createScallopSDK(config);
+    const { liquidatorOptions, swapTo } = await parseSwapFlags(args, scallop);
+    const liquidator = new ScallopLiquidator(scallop, { ...liquidatorSettings(config), ...liquidatorOptions });
+
+    report.status = await handleObligation(liquidator, { obligationId, mode, simulateOnly, flashLoan, selection, swapTo, exportPath }, report);
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+    console.error('\n❌ Error:', report.error);
+  }
+
+  report.exitCode = EXIT_CODES[report.status];
+  if (json) {
+    writeJson(report);
+  }
+  return report.exitCode;
+}
+
+/**
+ * Run the check/execute/force flow, printing as it goes and recording results in `report`
+ */
+async function handleObligation(liquidator: ScallopLiquidator, context: RunContext, report: ObligationReport): Promise<ObligationStatus> {
+  const { obligationId, mode, simulateOnly, flashLoan, selection, swapTo, exportPath } = context;
+  const exportUnsigned = exportPath !== undefined;
+
+  const modeLabel = (mode === 'force' ? 'FORCE' : mode.toUpperCase()) + (simulateOnly ? ' (SIMULATE)' : exportUnsigned ? ' (EXPORT UNSIGNED)' : '');
+  console.log(`\n[${modeLabel} MODE] Querying obligation: ${obligationId}`);
+  console.log('─'.repeat(70));
+
+  const obligationInfo = await liquidator.queryObligation(obligationId);
+  report.obligation = obligationInfo;
+
+  // Display obligation info
+  console.log('\n📊 Obligation Status:');
+  console.log(`   ID: ${obligationInfo.obligationId}`);
+  console.log(`   Risk Level: ${(obligationInfo.riskLevel * 100).toFixed(2)}%`);
+  console.log(`   Liquidatable: ${obligationInfo.isLiquidatable ? '✅ YES' : '❌ NO'}`);
+
+  // Display collaterals
+  console.log('\n💰 Collaterals:');
+  if (obligationInfo.collaterals.length === 0) {
+    console.log('   (none)');
+  } else {
+    for (const collateral of obligationInfo.collaterals) {
+      const displayName = collateral.coinSymbol || collateral.coinName;
+      console.log(`   • ${displayName}: ${collateral.amountCoin.toFixed(4)} (~$${collateral.valueUsd.toFixed(2)})`);
+      if (collateral.coinDisplayName && collateral.coinDisplayName !== displayName) {
+        console.log(`     └─ ${collateral.coinDisplayName}`);
+      }
+    }
+  }
+
+  // Display debts
+  console.log('\n💳 Debts:');
+  if (obligationInfo.debts.length === 0) {
+    console.log('   (none)');
+  } else {
+    for (const debt of obligationInfo.debts) {
+      const displayName = debt.coinSymbol || debt.coinName;
+      console.log(`   • ${displayName}: ${debt.amountCoin.toFixed(4)} (~$${debt.valueUsd.toFixed(2)})`);
+      if (debt.coinDisplayName && debt.coinDisplayName !== displayName) {
+        console.log(`     └─ ${debt.coinDisplayName}`);
+      }
+      if (debt.principalAmount !== undefined && debt.principalAmount !== debt.amount) {
+        console.log(`     └─ Principal: ${formatAmount(debt, BigInt(debt.principalAmount))} + ${formatAmount(debt, BigInt(debt.amount - debt.principalAmount))} accrued interest`);
+      }
+      // Show coin type for clarity (especially for bad debt)
+      console.log(`     └─ Type: ${debt.coinType}`);
+    }
+  }
+
+  console.log('\n' + '─'.repeat(70));
+
+  // Check for bad debt (debt but no collateral)
+  const badDebt = isBadDebt(obligationInfo);
+
+  if (badDebt) {
+    console.log('\n🚨 BAD DEBT DETECTED!');
+    console.log('   This obligation has debt but NO collateral.');
+    console.log('   Standard liquidation is not possible.');
+
+    if (mode !== 'force') {
+      console.log('\n💡 Use --force to attempt a direct repayment (experimental)');
+      return 'bad_debt';
+    }
+    console.log('\n⚠️  Force mode: attempting direct repayment...');
+  }
+
+  // If not liquidatable, exit (unless force mode)
+  if (!obligationInfo.isLiquidatable && !badDebt) {
+    console.log('\n⚠️  This obligation is not liquidatable (Risk Level < 100%)');
+    if (mode !== 'force') {
+      console.log('✓  Check complete - no action needed');
+      return 'not_liquidatable';
+    }
+    console.log('⚠️  Force mode: attempting liquidation anyway...');
+  }
+
+  // Handle bad debt case (force repayment without collateral)
+  if (badDebt && mode === 'force') {
+    const primaryDebt = selection.debtCoinName
+      ? obligationInfo.debts.find(d => d.coinName.toLowerCase() === selection.debtCoinName!.toLowerCase())
+      : obligationInfo.debts[0];
+    if (!primaryDebt) {
+      throw new Error(`Obligation has no ${selection.debtCoinName} debt`);
+    }
+    const coinDisplay = primaryDebt.coinSymbol || primaryDebt.coinName.toUpperCase();
+
+    // Repay full bad debt amount (100%)
+    const repayPercentage = 1.0;
+    const repayAmountRaw = BigInt(Math.floor(primaryDebt.amount * repayPercentage));
+    const repayAmountHuman = primaryDebt.amountCoin * repayPercentage;
+
+    console.log('\n📈 Bad Debt Repayment:');
+    console.log(`   Coin: ${coinDisplay} (${primaryDebt.coinDisplayName || coinDisplay})`);
+    console.log(`   Coin Type: ${primaryDebt.coinType}`);
+    console.log(`   Total debt: ${primaryDebt.amountCoin.toFixed(6)} ${coinDisplay}`);
+    console.log(`   Repay amount (100%): ${repayAmountHuman.toFixed(6)} ${coinDisplay}`);
+    console.log(`   Raw amount: ${repayAmountRaw.toString()}`);
+    console.log(`   ⚠️  WARNING: You will NOT receive any collateral in return!`);
+    console.log(`\n💰 Required: ${repayAmountHuman.toFixed(6)} ${coinDisplay} in your wallet`);
+    console.log(`   Coin type needed: ${primaryDebt.coinType}`);
+
+    console.log(simulateOnly
+      ? '\n🧪 Simulating bad debt repayment...'
+      : exportUnsigned ? '\n📝 Building unsigned bad debt repayment...' : '\n🚀 Executing bad debt repayment...');
+
+    const result = await liquidator.repayBadDebt(
+      obligationId,
+      primaryDebt.coinName,
+      repayAmountRaw,
+      { simulateOnly, exportUnsigned }
+    );
+    report.result = result;
+    printSimulation(result.simulation);
+
+    if (result.simulated) {
+      console.log('\n✅ Simulation succeeded - nothing was signed or submitted');
+      return 'simulated';
+    } else if (result.unsigned) {
+      report.exportedTo = exportPath;
+      exportTransaction(exportPath!, result, {
+        kind: 'repay',
+        obligationId,
+        debtCoinName: primaryDebt.coinName,
+        summary: [
+          `Repay the bad debt of obligation ${obligationId}`,
+          `Repay ${repayAmountHuman.toFixed(6)} ${coinDisplay} (${primaryDebt.coinType}); no collateral is received`,
+        ],
+      });
+      return 'exported';
+    } else if (result.success) {
+      console.log('\n✅ Bad debt repayment successful!');
+      console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
+      printExecution(result, raw => formatAmount(primaryDebt, BigInt(raw)));
+      return 'succeeded';
+    } else {
+      console.log('\n❌ Bad debt repayment failed:');
+      printFailure(result);
+      return 'failed';
+    }
+  }
+
+  // If liquidatable (or force mode), show profit estimation
+  if (obligationInfo.debts.length === 0 || obligationInfo.collaterals.length === 0) {
+    console.log('\n⚠️  No debts or collaterals found');
+    return 'not_liquidatable';
+  }
+
+  const plan = await liquidator.planLiquidation(obligationInfo, selection, { flashLoan, swapTo });
+  if (!plan) {
+    throw new Error('No allowed debt/collateral pair with a Scallop risk model found');
+  }
+  const { candidates, profit, ...pair } = plan;
+  report.pair = pair;
+  report.profit = profit;
+
+  const manual = selection.debtCoinName || selection.collateralCoinName;
+  console.log(`\n📈 Liquidation Opportunity${manual ? ' (manual pair)' : ''}:`);
+  console.log(`   Debt to repay: ${plan.debt.coinName}`);
+  console.log(`   Collateral to receive: ${plan.collateral.coinName}`);
+  console.log(`   Repay amount: ${formatRepay(plan)} (limited by ${plan.limitedBy})`);
+  if (plan.maxRepayAmount !== plan.repayAmount) {
+    console.log(`   Protocol max repay: ${formatAmount(plan.debt, plan.maxRepayAmount)}`);
+  }
+  console.log(`   Collateral seized: ${plan.collateralSeizedCoin.toFixed(6)} ${plan.collateral.coinSymbol || plan.collateral.coinName.toUpperCase()} (~$${plan.collateralSeizedUsd.toFixed(2)})`);
+  console.log(`   Risk level after: ${formatRisk(plan.resultingRiskLevel)}`);
+  if (plan.flashLoan) {
+    console.log(`   Funding: ⚡ flash loan (fee ${(plan.flashLoan.feeRate * 100).toFixed(3)}%)`);
+    console.log(`   Repaid via: ${plan.flashLoan.swap ? plan.flashLoan.swap.route : `seized ${plan.collateral.coinName} (same coin, no swap)`}`);
+  } else if (flashLoan) {
+    console.log(`   Funding: wallet (flash loan unavailable: ${plan.fundingNote})`);
+  }
+  if (plan.swap && !plan.flashLoan) {
+    console.log(`   Swap: ${plan.swap.route}`);
+  } else if (plan.swapNote) {
+    console.log(`   Swap: skipped (${plan.swapNote})`);
+  }
+  if (plan.swap) {
+    console.log(`   Quoted output: ${plan.swap.amountOut} ${plan.swap.toCoinName} (min ${plan.swap.minAmountOut} at ${(plan.swap.slippageBps / 100).toFixed(2)}% slippage, ~$${plan.proceedsUsd.toFixed(2)})`);
+  }
+  printProfit(profit);
+  console.log(`   Profitable: ${plan.profitable ? '✅ YES' : '⚠️ Below minimum profit'}`);
+
+  if (mode === 'check') {
+    printPairRanking(candidates);
+
+    // Check mode - just report status
+    console.log('\n✓  Check complete - position IS liquidatable');
+    console.log('\n💡 To execute liquidation:');
+    console.log(`   pnpm sliq ${obligationId} --execute    # Check profit first`);
+    console.log(`   pnpm sliq ${obligationId} --force      # Bypass profit check`);
+    if (!flashLoan) {
+      console.log(`   pnpm sliq ${obligationId} --execute --flashloan   # No wallet inventory needed`);
+    }
+    return 'liquidatable';
+  }
+
+  if (mode === 'execute' && !plan.profitable) {
+    // Execute mode but not profitable
+    console.log('\n⚠️  Liquidation not profitable. Use --force to bypass this check.');
+    return 'not_profitable';
+  }
+
+  // Execute or Force mode - perform liquidation
+  if (mode === 'force') {
+    console.log('\n⚡ Force mode: bypassing profit check...');
+  }
+  if (plan.repayAmount === 0n) {
+    const coinDisplay = plan.debt.coinSymbol || plan.debt.coinName.toUpperCase();
+    console.log(plan.limitedBy === 'inventory'
+      ? `\n❌ Nothing to repay: your wallet holds no ${coinDisplay} (${plan.debt.coinType})`
+      : plan.limitedBy === 'liquidity'
+        ? `\n❌ Nothing to repay: the ${coinDisplay} pool has no liquidity to flash loan`
+        : plan.limitedBy === 'config'
+          ? `\n❌ Nothing to repay: maxRepay for ${plan.debt.coinName} is 0 in the config`
+          : '\n❌ Nothing to repay: the protocol allows no liquidation of this obligation right now');
+    return 'failed';
+  }
+  console.log(simulateOnly
+    ? '\n🧪 Simulating liquidation...'
+    : exportUnsigned ? '\n📝 Building unsigned liquidation...' : '\n🚀 Executing liquidation...');
+
+  const result = await liquidator.liquidate(
+    obligationId,
+    plan.debt.coinName,
+    plan.collateral.coinName,
+    plan.repayAmount,
+    // Force mode skips the profit re-check after simulation
+    { simulateOnly, exportUnsigned, flashLoan: plan.funding === 'flashloan', swapTo, profit: mode === 'execute' ? profit : undefined }
+  );
+  report.result = result;
+  if (result.profit) {
+    report.profit = result.profit;
+  }
+  if (result.fallbackReason) {
+    console.log(`\n⚠️  Flash loan unavailable, used wallet funding: ${result.fallbackReason}`);
+  }
+  if (result.swapSkippedReason) {
+    console.log(`\n⚠️  Swap skipped, collateral kept as is: ${result.swapSkippedReason}`);
+  }
+  printSimulation(result.simulation);
+  if (result.profit) {
+    console.log(`   Net profit after gas: ~$${result.profit.netProfitUsd.toFixed(2)} (${result.profit.netProfitBps.toFixed(0)} bps)`);
+  }
+
+  if (result.simulated) {
+    console.log('\n✅ Simulation succeeded - nothing was signed or submitted');
+    return 'simulated';
+  } else if (result.unsigned) {
+    report.exportedTo = exportPath;
+    exportTransaction(exportPath!, result, {
+      kind: 'liquidate',
+      obligationId,
+      debtCoinName: plan.debt.coinName,
+      collateralCoinName: plan.collateral.coinName,
+      summary: describeLiquidation(obligationId, plan, result),
+    });
+    return 'exported';
+  } else if (result.success) {
+    console.log('\n✅ Liquidation successful!');
+    console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
+    printExecution(
+      result,
+      raw => formatAmount(plan.debt, BigInt(raw)),
+      raw => formatAmount(plan.collateral, BigInt(raw)),
+      (result.profit ?? profit).netProfitUsd
+    );
+    return 'succeeded';
+  } else if (result.errorCode === LiquidationErrorCode.NotProfitable) {
+    console.log(`\n⚠️  ${result.error}. Use --force to bypass this check.`);
+    return 'not_profitable';
+  } else {
+    console.log('\n❌ Liquidation failed:');
+    printFailure(result);
+    return 'failed';
+  }
+}
+
+/**
+ * What an exported liquidation does, for whoever signs it
+ */
+function describeLiquidation(obligationId: string, plan: LiquidationCandidate, result: LiquidationResult): string[] {
+  const collateralDisplay = plan.collateral.coinSymbol || plan.collateral.coinName.toUpperCase();
+  const lines = [
+    `Liquidate obligation ${obligationId}`,
+    `Repay ${formatRepay(plan)} (${plan.debt.coinType})`,
+    `Seize ~${plan.collateralSeizedCoin.toFixed(6)} ${collateralDisplay} (~$${plan.collateralSeizedUsd.toFixed(2)})`,
+  ];
+  if (result.funding === 'flashloan' && plan.flashLoan) {
+    lines.push(`Funding: flash loan (fee ${(plan.flashLoan.feeRate * 100).toFixed(3)}%), repaid from the seized collateral`);
+  } else {
+    lines.push(`Funding: the sender's ${plan.debt.coinName} balance`);
+  }
+  if (result.swap) {
+    lines.push(`Swap: ${result.swap.route} (min ${result.swap.minAmountOut} ${result.swap.toCoinName})`);
+  }
+  if (result.profit) {
+    lines.push(`Net profit after simulated gas: ~$${result.profit.netProfitUsd.toFixed(2)} (${result.profit.netProfitBps.toFixed(0)} bps)`);
+  }
+  return lines;
+}
+
+/**
+ * Write an unsigned transaction for an external signer and explain how to send it
+ */
+function exportTransaction(
+  path: string,
+  result: LiquidationResult,
+  details: Pick<UnsignedTxFile, 'kind' | 'obligationId' | 'debtCoinName' | 'collateralCoinName' | 'summary'>
+) {
+  const unsigned = result.unsigned!;
+  const simulation = result.simulation!;
+  const summary = [
+    ...details.summary,
+    `Gas: ~${(simulation.gasCostMist / 1e9).toFixed(6)} SUI (simulated)`,
+    ...simulation.balanceChanges.map(change => `Sender balance change: ${change.amount.startsWith('-') ? '' : '+'}${change.amount} ${change.coinType}`),
+    `Sender: ${unsigned.sender}`,
+  ];
+
+  writeUnsignedTx(path, {
+    schemaVersion: UNSIGNED_TX_VERSION,
+    kind: details.kind,
+    createdAt: new Date().toISOString(),
+    obligationId: details.obligationId,
+    debtCoinName: details.debtCoinName,
+    collateralCoinName: details.collateralCoinName,
+    repayAmount: result.repaidAmount!,
+    summary,
+    sender: unsigned.sender,
+    digest: unsigned.digest,
+    txBytes: unsigned.txBytes,
+    simulation,
+    profit: result.profit,
+  });
+
+  console.log('\n📝 Unsigned transaction:');
+  for (const line of summary) {
+    console.log(`   ${line}`);
+  }
+  console.log(`\n✅ Written to ${path} - nothing was signed or submitted`);
+  console.log(`   Digest: ${unsigned.digest}`);
+  console.log('   Sign txBytes with the sender\'s wallet soon (the oracle prices and gas coin in it go stale), then:');
+  console.log(`   pnpm sliq submit ${path} <signature...>`);
+}
+
+function formatAmount(asset: DebtInfo | CollateralInfo, rawAmount: bigint): string {
+  const coinDisplay = asset.coinSymbol || asset.coinName.toUpperCase();
+  const amountCoin = asset.amount > 0 ? (Number(rawAmount) * asset.amountCoin) / asset.amount : 0;
+  return `${amountCoin.toFixed(6)} ${coinDisplay}`;
+}
+
+/**
+ * Raw amount in whole coins, for amounts known only by their coin
+ */
+export function formatCoinAmount(coin: CoinInfo, rawAmount: bigint): string {
+  return `${(Number(rawAmount) / Math.pow(10, coin.decimals)).toFixed(6)} ${coin.symbol}`;
+}
+
+function formatRepay(candidate: LiquidationCandidate): string {
+  return formatAmount(candidate.debt, candidate.repayAmount);
+}
+
+function formatRisk(riskLevel: number): string {
+  return Number.isFinite(riskLevel) ? `${(riskLevel * 100).toFixed(2)}%` : '∞';
+}
+
+function printPairRanking(candidates: LiquidationCandidate[]) {
+  console.log('\n🏆 Pair Ranking:');
+  console.log(`   ${'#'.padEnd(3)}${'Debt → Collateral'.padEnd(24)}${'Discount'.padStart(9)}  ${'Repay'.padStart(22)}  ${'Profit'.padStart(10)}  ${'Risk after'.padStart(10)}  ${'Limited by'.padEnd(11)}Funding`);
+  candidates.forEach((candidate, index) => {
+    const pair = `${candidate.debt.coinName} → ${candidate.collateral.coinName}`;
+    console.log(
+      `   ${String(index + 1).padEnd(3)}${pair.padEnd(24)}${((candidate.riskModel.liquidationDiscount * 100).toFixed(2) + '%').padStart(9)}  ` +
+      `${formatRepay(candidate).padStart(22)}  ${('$' + candidate.estimatedProfitUsd.toFixed(2)).padStart(10)}  ` +
+      `${formatRisk(candidate.resultingRiskLevel).padStart(10)}  ${candidate.limitedBy.padEnd(11)}${candidate.funding}`
+    );
+  });
+}
+
+function printProfit(profit: ProfitBreakdown) {
+  const row = (label: string, value: number, note = '') =>
+    console.log(`   ${label.padEnd(22)}${(value < 0 ? '-$' : ' $') + Math.abs(value).toFixed(2)}${note}`);
+
+  console.log('\n💵 Profit Estimate:');
+  row('Collateral value', profit.collateralValueUsd);
+  row('Repay', -profit.repayUsd);
+  row(`Discount (${(profit.liquidationDiscount * 100).toFixed(2)}%)`, profit.discountUsd);
+  if (profit.slippageUsd !== 0) {
+    row('Swap slippage', -profit.slippageUsd);
+  }
+  if (profit.flashLoanFeeUsd > 0) {
+    row('Flash loan fee', -profit.flashLoanFeeUsd);
+  }
+  row(`Gas (${profit.gasSource})`, -profit.gasUsd, ` (${(profit.gasCostMist / 1e9).toFixed(4)} SUI)`);
+  row('Net profit', profit.netProfitUsd, ` (${profit.netProfitBps.toFixed(0)} bps)`);
+}
+
+function printSimulation(simulation: SimulationResult | undefined) {
+  if (!simulation) return;
+
+  console.log('\n🧪 Simulation:');
+  console.log(`   Status: ${simulation.success ? '✅ success' : '❌ failed'}`);
+  if (simulation.error) {
+    console.log(`   Abort: ${simulation.error}`);
+  }
+  console.log(`   Gas cost: ${(simulation.gasCostMist / 1e9).toFixed(6)} SUI`);
+  if (simulation.balanceChanges.length > 0) {
+    console.log('   Balance changes:');
+    for (const change of simulation.balanceChanges) {
+      const sign = change.amount.startsWith('-') ? '' : '+';
+      console.log(`     • ${sign}${change.amount} ${change.coinType}`);
+    }
+  }
+}
+
+/**
+ * What an executed transaction did, read back from its effects, against the pre-trade estimate
+ */
+export function printExecution(
+  result: LiquidationResult,
+  formatDebt: (raw: string) => string,
+  formatCollateral?: (raw: string) => string,
+  estimatedProfitUsd?: number
+) {
+  console.log(`   Repaid: ${formatDebt(result.repaidAmount!)}`);
+  if (result.refundAmount) {
+    console.log(`   Refunded: ${formatDebt(result.refundAmount)} (the protocol took less than offered)`);
+  }
+  if (result.collateralReceived && formatCollateral) {
+    console.log(`   Collateral received: ${formatCollateral(result.collateralReceived)}`);
+  }
+  if (!result.effects) return;
+
+  console.log(`   Gas paid: ${(result.effects.gasCostMist / 1e9).toFixed(6)} SUI`);
+  const { realisedProfitUsd } = result.effects;
+  if (realisedProfitUsd !== null) {
+    const estimate = estimatedProfitUsd === undefined ? '' : ` (estimated $${estimatedProfitUsd.toFixed(2)})`;
+    console.log(`   Realised profit: $${realisedProfitUsd.toFixed(2)}${estimate}`);
+  }
+}
+
+export function printFailure(result: LiquidationResult) {
+  if (result.preflight) {
+    console.log('   Wallet preflight failed, nothing was built:');
+    for (const problem of result.preflight.problems) {
+      console.log(`   • ${problem}`);
+    }
+  } else {
+    console.log(`   Error: ${result.error}`);
+  }
+  console.log(`   Code: ${result.errorCode ?? LiquidationErrorCode.Unknown}`);
+  if (result.abort) {
+    console.log(`   Move abort: ${formatMoveAbort(result.abort)}`);
+  }
+  if (result.effects) {
+    console.log(`   Gas paid: ${(result.effects.gasCostMist / 1e9).toFixed(6)} SUI (the transaction executed and aborted)`);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * `--json` output and process exit codes shared by the CLI commands
+ *
+ * With --json, stdout carries exactly one JSON document per run (watch: one event per line)
+ * and every human-readable line, including SDK and library logs, goes to stderr.
+ */
+
+import type { LiquidationErrorCode } from '../errors.js';
+import type { JournalSummary } from '../journal.js';
+import type { SignatureCheck } from '../unsigned-tx.js';
+import type {
+  EndpointProbe,
+  EndpointStats,
+  JournalEntry,
+  JournalOutcome,
+  LiquidationPlan,
+  LiquidationResult,
+  NotificationType,
+  ObligationInfo,
+  ProfitBreakdown,
+  RepayLimit,
+  ScanEntry,
+  WalletBalance,
+  WalletPreflight,
+} from '../types.js';
+
+// Bump when a field is renamed or removed; adding fields keeps the version
+export const JSON_SCHEMA_VERSION = 2;
+
+export type ObligationStatus =
+  | 'not_liquidatable'    // Healthy, or nothing to liquidate against
+  | 'bad_debt'            // Debt without collateral; needs --force to repay
+  | 'liquidatable'        // Check mode: an opportunity was found
+  | 'not_profitable'      // Execute mode: below the minimum profit, nothing was sent
+  | 'simulated'           // Dry run succeeded, nothing was signed
+  | 'exported'            // Dry run succeeded, the unsigned transaction was written for an external signer
+  | 'succeeded'
+  | 'failed'              // Liquidation or repayment was attempted and failed
+  | 'error';              // Bad input, RPC failure, ...
+
+export const EXIT_CODES: Record<ObligationStatus, number> = {
+  liquidatable: 0,
+  simulated: 0,
+  exported: 0,
+  succeeded: 0,
+  error: 1,
+  not_liquidatable: 2,
+  bad_debt: 3,
+  failed: 4,
+  not_profitable: 5,
+};
+
+export interface ObligationReport {
+  schemaVersion: number;
+  command: 'obligation';
+  obligationId: string;
+  mode: 'check' | 'execute' | 'force';
+  simulate: boolean;
+  status: ObligationStatus;
+  exitCode: number;
+  obligation: ObligationInfo | null;
+  pair: Omit<LiquidationPlan, 'candidates' | 'profit'> | null;  // Chosen debt/collateral pair
+  profit: ProfitBreakdown | null;   // Simulated when a transaction was dry-run, estimated otherwise
+  result: LiquidationResult | null;
+  exportedTo?: string;          // --export-unsigned file
+  error?: string;
+}
+
+export interface SubmitReport {
+  schemaVersion: number;
+  command: 'submit';
+  file: string;
+  kind: 'liquidate' | 'repay' | null;
+  obligationId: string | null;
+  digest: string | null;
+  signers: SignatureCheck[];
+  status: Extract<ObligationStatus, 'succeeded' | 'failed' | 'error'>;
+  exitCode: number;
+  result: LiquidationResult | null;
+  error?: string;
+}
+
+export interface ScanReport {
+  schemaVersion: number;
+  command: 'scan';
+  pagesScanned: number;
+  nextCursor: string | null;    // Pass to --cursor to resume
+  hasNextPage: boolean;
+  summary: {
+    obligations: number;
+    liquidatable: number;
+    badDebt: number;
+    queryErrors: number;
+    chainQueries: number;
+    chainObligationReads: number;
+  };
+  entries: ScanEntry[];         // Sorted by risk level, highest first
+}
+
+export interface BatchEntry {
+  obligationId: string;
+  status: ObligationStatus;
+  riskLevel?: number;
+  debtCoinName?: string;
+  collateralCoinName?: string;
+  repayAmount?: string;         // Raw debt amount
+  estimatedProfitUsd?: number;
+  realisedProfitUsd?: number;   // Net profit of an executed liquidation (its wallet balance changes), or of a simulated one
+  txDigest?: string;
+  bundled?: boolean;            // --bundle: sent in one transaction with other liquidations
+  errorCode?: LiquidationErrorCode;
+  error?: string;
+}
+
+export interface BatchReport {
+  schemaVersion: number;
+  command: 'batch';
+  mode: 'check' | 'execute' | 'force';
+  simulate: boolean;
+  exitCode: number;
+  summary: {
+    obligations: number;
+    liquidated: number;         // Succeeded, or simulated with --simulate
+    liquidatable: number;       // Check mode only
+    skipped: number;            // Not liquidatable or not profitable
+    badDebt: number;
+    failed: number;
+    errors: number;
+    estimatedProfitUsd: number;
+    realisedProfitUsd: number;
+  };
+  entries: BatchEntry[];        // In input order
+}
+
+export interface EndpointReport extends EndpointStats {
+  role: 'primary' | 'fallback';
+  probes: EndpointProbe[];
+  minLatencyMs: number | null;
+  maxLatencyMs: number | null;
+  checkpoint: string | null;    // From the last probe
+  checkpointLag: number | null; // Checkpoints behind the most advanced fullnode
+}
+
+export interface RpcReport {
+  schemaVersion: number;
+  command: 'rpc';
+  exitCode: number;             // 0 when at least one fullnode answered
+  rateLimit: number;            // Requests per second, per fullnode
+  timeoutMs: number;
+  maxRetries: number;
+  endpoints: EndpointReport[];  // Primary first, then fallbacks in order
+}
+
+export interface WalletBalanceReport extends WalletBalance {
+  valueUsd: number | null;      // Scallop-listed coins only, at the market price
+}
+
+export interface WalletRequirement {
+  obligationId: string;
+  riskLevel: number;
+  debtCoinName: string;
+  debtSymbol: string;
+  collateralCoinName: string;
+  repayAmount: string;          // Raw debt amount the best pair calls for, whatever the wallet holds
+  repayCoin: number;
+  limitedBy: RepayLimit;
+  estimatedProfitUsd: number;
+}
+
+export interface WalletReport {
+  schemaVersion: number;
+  command: 'wallet';
+  address: string;
+  exitCode: number;             // 0, or 4 when the wallet can't fund every requirement
+  balances: WalletBalanceReport[];  // Highest value first
+  summary: {
+    obligations: number;        // Checked: given on the command line and/or found by --scan
+    liquidatable: number;
+    queryErrors: number;
+  };
+  requirements: WalletRequirement[];  // Most profitable first
+  preflight: WalletPreflight | null;  // Requirements summed per coin against the balances
+}
+
+export interface HistoryReport {
+  schemaVersion: number;
+  command: 'history';
+  journal: string;              // Journal file read
+  exitCode: number;
+  filter: {
+    since: string | null;
+    until: string | null;
+    coin: string | null;
+    outcomes: JournalOutcome[] | null;
+    kinds: JournalEntry['kind'][] | null;
+  };
+  summary: JournalSummary;
+  entries: JournalEntry[];      // Every matching entry, oldest first
+}
+
+export interface NotifyReport {
+  schemaVersion: number;
+  command: 'notify';
+  type: NotificationType;       // Sample notification sent
+  exitCode: number;             // 0 when every channel accepted it
+  channels: Array<{
+    channel: string;            // e.g. "telegram 123456", "discord discord.com"
+    delivered: boolean;
+    error: string | null;
+  }>;
+}
+
+/**
+ * Send console.log to stderr so that only the JSON document reaches stdout
+ * Covers the Scallop SDK and library code, which log with console.log too.
+ */
+export function reserveStdoutForJson(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Write a JSON document (or watch event) to stdout
+ * bigint amounts become decimal strings; provider-specific swap route data is dropped.
+ */
+export function writeJson(document: object, pretty = true): void {
+  process.stdout.write(JSON.stringify(document, jsonReplacer, pretty ? 2 : undefined) + '\n');
+}
+
+export function jsonReplacer(this: unknown, key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  // SwapQuote.data is the aggregator's raw route, neither stable nor always serializable
+  if (key === 'data' && typeof this === 'object' && this !== null && 'route' in this && 'provider' in this) {
+    return undefined;
+  }
+  return value;
+}
@@ -0,0 +1,111 @@
+/**
+ * `sliq rpc` - probe the configured fullnodes and report latency, failures and checkpoint lag
+ */
+
+import { createRpcPool } from '../rpc.js';
+import type { EndpointProbe, EndpointStats } from '../types.js';
+import { getNumberFlag } from './args.js';
+import { loadConfigFromArgs } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type EndpointReport, type RpcReport } from './output.js';
+
+export async function runRpc(args: string[]): Promise<number> {
+  const probes = getNumberFlag(args, '--probes', 3)!;
+  const json = args.includes('--json');
+
+  const config = loadConfigFromArgs(args);
+  const rpc = createRpcPool(config);
+
+  console.log(`\n[RPC DIAGNOSTICS] ${rpc.stats().length} fullnodes, ${probes} probes each`);
+  console.log(`   Rate limit: ${config.rpcRateLimit} req/s per fullnode, timeout ${config.rpcTimeoutMs}ms, ${config.rpcMaxRetries} retries`);
+  console.log('─'.repeat(70));
+
+  const rounds: EndpointProbe[][] = [];
+  for (let i = 0; i < probes; i++) {
+    rounds.push(await rpc.checkHealth());
+  }
+
+  // Lag is measured against the most advanced fullnode in the last round
+  const latest = rounds[rounds.length - 1]
+    .map(probe => probe.checkpoint)
+    .filter((checkpoint): checkpoint is string => checkpoint !== undefined)
+    .reduce((max, checkpoint) => BigInt(checkpoint) > max ? BigInt(checkpoint) : max, 0n);
+
+  const endpoints: EndpointReport[] = rpc.stats().map((stats, index) => {
+    const results = rounds.map(round => round[index]);
+    const latencies = results.filter(probe => probe.ok).map(probe => probe.latencyMs);
+    const checkpoint = results[results.length - 1].checkpoint;
+    return {
+      ...stats,
+      role: index === 0 ? 'primary' : 'fallback',
+      probes: results,
+      minLatencyMs: latencies.length > 0 ? Math.min(...latencies) : null,
+      maxLatencyMs: latencies.length > 0 ? Math.max(...latencies) : null,
+      checkpoint: checkpoint ?? null,
+      checkpointLag: checkpoint === undefined ? null : Number(latest - BigInt(checkpoint)),
+    };
+  });
+
+  console.log('\n📡 Fullnodes:');
+  printEndpointReport(endpoints);
+
+  const reachable = endpoints.filter(endpoint => endpoint.probes.some(probe => probe.ok)).length;
+  console.log('\n' + '─'.repeat(70));
+  console.log(`\n📊 ${reachable}/${endpoints.length} fullnodes reachable`);
+  if (reachable > 0 && !endpoints[0].probes.some(probe => probe.ok)) {
+    console.log('   ⚠️  The primary fullnode is down; requests will fail over to the fallbacks');
+  }
+
+  const exitCode = reachable > 0 ? EXIT_CODES.succeeded : EXIT_CODES.error;
+  if (json) {
+    const report: RpcReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'rpc',
+      exitCode,
+      rateLimit: config.rpcRateLimit,
+      timeoutMs: config.rpcTimeoutMs,
+      maxRetries: config.rpcMaxRetries,
+      endpoints,
+    };
+    writeJson(report);
+  }
+  return exitCode;
+}
+
+/**
+ * Request and failure counts per fullnode, as accumulated by a running pool
+ */
+export function printEndpointStats(stats: EndpointStats[]) {
+  console.log(`   ${'Fullnode'.padEnd(50)}  ${'Requests'.padStart(8)}  ${'Failures'.padStart(8)}  ${'Avg ms'.padStart(7)}  Status`);
+  for (const endpoint of stats) {
+    console.log(
+      `   ${endpoint.url.padEnd(50)}  ${String(endpoint.requests).padStart(8)}  ${String(endpoint.failures).padStart(8)}  ` +
+      `${formatLatency(endpoint.avgLatencyMs).padStart(7)}  ${formatHealth(endpoint)}`
+    );
+  }
+}
+
+function printEndpointReport(endpoints: EndpointReport[]) {
+  console.log(
+    `   ${'Fullnode'.padEnd(50)}  ${'Role'.padEnd(8)}  ${'OK'.padStart(5)}  ` +
+    `${'Avg ms'.padStart(7)}  ${'Min'.padStart(5)}  ${'Max'.padStart(5)}  ${'Lag'.padStart(5)}  Status`
+  );
+  for (const endpoint of endpoints) {
+    const ok = endpoint.probes.filter(probe => probe.ok).length;
+    console.log(
+      `   ${endpoint.url.padEnd(50)}  ${endpoint.role.padEnd(8)}  ${`${ok}/${endpoint.probes.length}`.padStart(5)}  ` +
+      `${formatLatency(endpoint.avgLatencyMs).padStart(7)}  ${formatLatency(endpoint.minLatencyMs).padStart(5)}  ` +
+      `${formatLatency(endpoint.maxLatencyMs).padStart(5)}  ${(endpoint.checkpointLag === null ? '-' : String(endpoint.checkpointLag)).padStart(5)}  ` +
+      formatHealth(endpoint)
+    );
+  }
+}
+
+function formatLatency(ms: number | null): string {
+  return ms === null ? '-' : ms.toFixed(0);
+}
+
+function formatHealth(endpoint: EndpointStats): string {
+  if (endpoint.requests === 0) return '➖ unused';
+  if (endpoint.healthy) return '✅ healthy';
+  return `❌ cooling down (${endpoint.lastError ?? 'failed'})`;
+}
@@ -0,0 +1,122 @@
+/**
+ * `sliq scan` - discover liquidatable obligations across the whole market
+ */
+
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator, isBadDebt } from '../liquidator.js';
+import { ObligationScanner, sortByRisk, encodeCursor, decodeCursor } from '../scanner.js';
+import type { ScanEntry } from '../types.js';
+import { getFlagValue, getNumberFlag } from './args.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type ScanReport } from './output.js';
+
+export async function runScan(args: string[]): Promise<number> {
+  const cursorArg = getFlagValue(args, '--cursor');
+  const pageSize = getNumberFlag(args, '--limit', 50);
+  const maxPages = getNumberFlag(args, '--pages');
+  const onlyLiquidatable = args.includes('--only-liquidatable');
+  const json = args.includes('--json');
+
+  if (pageSize !== undefined && pageSize > 50) {
+    throw new Error('--limit cannot exceed 50 (Sui RPC page size limit).');
+  }
+
+  const config = loadConfigFromArgs(args);
+  const configSource = describeConfigSource(config);
+  console.log(`Initializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+  const scallop = await createScallopSDK(config);
+  const liquidator = new ScallopLiquidator(scallop, liquidatorSettings(config));
+  const scanner = new ObligationScanner(liquidator);
+
+  console.log(`\n[SCAN MODE] Enumerating obligations${cursorArg ? ` from cursor ${cursorArg}` : ''}`);
+  console.log('─'.repeat(70));
+
+  const result = await scanner.scan({
+    cursor: cursorArg ? decodeCursor(cursorArg) : null,
+    pageSize,
+    maxPages,
+    concurrency: config.concurrency,
+    onPage: (entries, pageIndex, nextCursor) => {
+      const liquidatable = entries.filter(e => e.info?.isLiquidatable).length;
+      const cursorLabel = nextCursor ? encodeCursor(nextCursor) : '(end)';
+      console.log(`   Page ${pageIndex + 1}: ${entries.length} obligations, ${liquidatable} liquidatable, next cursor ${cursorLabel}`);
+    },
+  });
+
+  const sorted = sortByRisk(result.entries).filter(entry =>
+    !onlyLiquidatable || (entry.info && (entry.info.isLiquidatable || isBadDebt(entry.info)))
+  );
+
+  console.log('\n📋 Obligations by Risk Level:');
+  printScanTable(sorted);
+
+  const liquidatableCount = result.entries.filter(e => e.info?.isLiquidatable).length;
+  const badDebtCount = result.entries.filter(e => e.info && isBadDebt(e.info)).length;
+  const errorCount = result.entries.filter(e => e.error).length;
+  const chainQueries = result.entries.filter(e => e.info?.obligationReads !== undefined);
+  const chainObligationReads = chainQueries.reduce((sum, e) => sum + e.info!.obligationReads!, 0);
+
+  console.log('\n' + '─'.repeat(70));
+  console.log('\n📊 Scan Summary:');
+  console.log(`   Pages scanned: ${result.pagesScanned}`);
+  console.log(`   Obligations: ${result.entries.length}`);
+  console.log(`   Liquidatable: ${liquidatableCount}`);
+  console.log(`   Bad debt: ${badDebtCount}`);
+  console.log(`   Query errors: ${errorCount}`);
+  if (chainQueries.length > 0) {
+    console.log(`   Read from chain: ${chainQueries.length} (${chainObligationReads} obligation reads)`);
+  }
+
+  if (result.nextCursor) {
+    const resumeCursor = encodeCursor(result.nextCursor);
+    console.log(result.hasNextPage ? '\n💡 More obligations remain. Resume with:' : '\n💡 Scan complete. Pick up new obligations later with:');
+    console.log(`   pnpm sliq scan --cursor ${resumeCursor}`);
+  }
+
+  if (json) {
+    const report: ScanReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'scan',
+      pagesScanned: result.pagesScanned,
+      nextCursor: result.nextCursor ? encodeCursor(result.nextCursor) : null,
+      hasNextPage: result.hasNextPage,
+      summary: {
+        obligations: result.entries.length,
+        liquidatable: liquidatableCount,
+        badDebt: badDebtCount,
+        queryErrors: errorCount,
+        chainQueries: chainQueries.length,
+        chainObligationReads,
+      },
+      entries: sorted,
+    };
+    writeJson(report);
+  }
+
+  return EXIT_CODES.succeeded;
+}
+
+function printScanTable(entries: ScanEntry[]) {
+  if (entries.length === 0) {
+    console.log('   (none)');
+    return;
+  }
+
+  console.log(`   ${'Obligation'.padEnd(66)}  ${'Risk'.padStart(10)}  ${'Debt $'.padStart(12)}  ${'Coll $'.padStart(12)}  Status`);
+  for (const entry of entries) {
+    if (!entry.info) {
+      console.log(`   ${entry.obligationId.padEnd(66)}  ${'-'.padStart(10)}  ${'-'.padStart(12)}  ${'-'.padStart(12)}  ❗ ${entry.error}`);
+      continue;
+    }
+
+    const info = entry.info;
+    const debtUsd = info.debts.reduce((sum, d) => sum + d.valueUsd, 0);
+    const collateralUsd = info.collaterals.reduce((sum, c) => sum + c.valueUsd, 0);
+    const status = isBadDebt(info) ? '🚨 BAD DEBT' : info.isLiquidatable ? '✅ LIQUIDATABLE' : '';
+
+    console.log(
+      `   ${info.obligationId.padEnd(66)}  ${((info.riskLevel * 100).toFixed(2) + '%').padStart(10)}  ` +
+      `${debtUsd.toFixed(2).padStart(12)}  ${collateralUsd.toFixed(2).padStart(12)}  ${status}`
+    );
+  }
+}
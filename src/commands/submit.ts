@@ -0,0 +1,112 @@
+/**
+ * `sliq submit <tx-file> <signature...>` - broadcast a transaction exported with --export-unsigned
+ */
+
+import { CoinRegistry } from '../coin-registry.js';
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator } from '../liquidator.js';
+import type { CoinInfo } from '../types.js';
+import { checkSignatures, readUnsignedTx } from '../unsigned-tx.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource } from './config-flags.js';
+import { formatCoinAmount, printExecution, printFailure } from './obligation.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type SubmitReport } from './output.js';
+
+export async function runSubmit(args: string[]): Promise<number> {
+  const json = args.includes('--json');
+  const [path, ...rest] = args;
+  // Signatures run up to the first flag
+  const flagIndex = rest.findIndex(arg => arg.startsWith('--'));
+  const signatures = flagIndex === -1 ? rest : rest.slice(0, flagIndex);
+
+  const report: SubmitReport = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    command: 'submit',
+    file: path,
+    kind: null,
+    obligationId: null,
+    digest: null,
+    signers: [],
+    status: 'error',
+    exitCode: EXIT_CODES.error,
+    result: null,
+  };
+
+  try {
+    if (!path || path.startsWith('--') || signatures.length === 0) {
+      throw new Error('Usage: pnpm sliq submit <tx-file> <signature...>');
+    }
+
+    const file = readUnsignedTx(path);
+    report.kind = file.kind;
+    report.obligationId = file.obligationId;
+    report.digest = file.digest;
+
+    console.log(`\n[SUBMIT] ${file.kind === 'repay' ? 'Bad debt repayment' : 'Liquidation'} of ${file.obligationId}`);
+    console.log('─'.repeat(70));
+    console.log(`   Exported: ${file.createdAt}`);
+    for (const line of file.summary) {
+      console.log(`   ${line}`);
+    }
+    console.log(`   Digest: ${file.digest}`);
+
+    // Catch signatures over other bytes, or by the wrong wallet, before the node does
+    report.signers = await checkSignatures(file, signatures);
+    console.log('\n✍️  Signatures:');
+    for (const check of report.signers) {
+      console.log(`   • ${check.signer ? `${check.signer}${check.signer === file.sender ? ' (sender)' : ''}` : `❌ invalid: ${check.error}`}`);
+    }
+    if (report.signers.some(check => !check.signer)) {
+      throw new Error(`Not every signature is valid for transaction ${file.digest}`);
+    }
+    if (!report.signers.some(check => check.signer === file.sender)) {
+      throw new Error(`No signature from the sender ${file.sender}`);
+    }
+
+    const config = loadConfigFromArgs(args);
+    const configSource = describeConfigSource(config);
+    console.log(`\nInitializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+    const scallop = await createScallopSDK(config);
+    const coins = new CoinRegistry(scallop);
+    const liquidator = new ScallopLiquidator(scallop, { ...liquidatorSettings(config), coinRegistry: coins });
+    // Resolved before sending: a coin that can't be resolved is shown in raw units instead of failing
+    const [debtCoin, collateralCoin] = await Promise.all([
+      coins.resolveByName(file.debtCoinName).catch(() => undefined),
+      file.collateralCoinName ? coins.resolveByName(file.collateralCoinName).catch(() => undefined) : undefined,
+    ]);
+    const formatCoin = (coinName: string, coin?: CoinInfo) =>
+      (raw: string) => coin ? formatCoinAmount(coin, BigInt(raw)) : `${raw} ${coinName} (raw units)`;
+
+    console.log('\n🚀 Broadcasting signed transaction...');
+    const result = await liquidator.submitSigned(file, signatures);
+    report.result = result;
+
+    const label = file.kind === 'repay' ? 'Bad debt repayment' : 'Liquidation';
+    if (result.success) {
+      console.log(`\n✅ ${label} successful!`);
+      console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
+      printExecution(
+        result,
+        formatCoin(file.debtCoinName, debtCoin),
+        file.collateralCoinName ? formatCoin(file.collateralCoinName, collateralCoin) : undefined,
+        file.profit?.netProfitUsd
+      );
+      report.status = 'succeeded';
+    } else {
+      console.log(`\n❌ ${label} failed:`);
+      if (result.txDigest) {
+        console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
+      }
+      printFailure(result);
+      report.status = 'failed';
+    }
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+    console.error('\n❌ Error:', report.error);
+  }
+
+  report.exitCode = EXIT_CODES[report.status];
+  if (json) {
+    writeJson(report);
+  }
+  return report.exitCode;
+}
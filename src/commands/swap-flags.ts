@@ -0,0 +1,34 @@
+/**
+ * `--swap` and `--swap-to` handling shared by commands that liquidate
+ * (`--slippage` is a setting, see config-flags.ts)
+ */
+
+import type { Scallop } from '@scallop-io/sui-scallop-sdk';
+import type { LiquidatorOptions } from '../liquidator.js';
+import { createSwapProvider, SWAP_PROVIDERS } from '../swap.js';
+import { getFlagValue } from './args.js';
+
+export interface SwapFlags {
+  liquidatorOptions: LiquidatorOptions;
+  swapTo?: string;        // Coin to unwind seized collateral into ('debt' = the repaid coin)
+}
+
+export async function parseSwapFlags(args: string[], scallop: Scallop): Promise<SwapFlags> {
+  const providerName = getFlagValue(args, '--swap');
+  const swapTo = getFlagValue(args, '--swap-to');
+
+  if (!providerName) {
+    if (swapTo) {
+      throw new Error(`--swap-to needs a swap provider: --swap <${SWAP_PROVIDERS.join('|')}>`);
+    }
+    return { liquidatorOptions: {} };
+  }
+
+  const query = await scallop.createScallopQuery();
+  return {
+    liquidatorOptions: {
+      swapProvider: createSwapProvider(providerName, query.walletAddress),
+    },
+    swapTo: swapTo ?? 'debt',
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * `sliq wallet` - what the wallet holds, and how much of each debt coin the liquidatable obligations call for
+ */
+
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator } from '../liquidator.js';
+import { estimateGasMist } from '../profit.js';
+import { ObligationScanner } from '../scanner.js';
+import type { ScanEntry, WalletPreflight } from '../types.js';
+import { mapWithConcurrency } from '../utils.js';
+import { getFlagValue, getNumberFlag, isObligationId, readObligationList } from './args.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource, describeWallet } from './config-flags.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, writeJson, type WalletBalanceReport, type WalletReport, type WalletRequirement } from './output.js';
+
+export async function runWallet(args: string[]): Promise<number> {
+  const file = getFlagValue(args, '--file');
+  const useScan = args.includes('--scan');
+  const scanPages = getNumberFlag(args, '--scan-pages');
+  const json = args.includes('--json');
+
+  const config = loadConfigFromArgs(args);
+  if (config.wallet === 'none' || !config.walletAddress) {
+    throw new Error('No wallet to read: set PRIVATE_KEY, MNEMONIC or --keystore, or pass --address');
+  }
+
+  const obligationIds = args.filter(isObligationId);
+  if (file) {
+    obligationIds.push(...readObligationList(file));
+  }
+
+  const configSource = describeConfigSource(config);
+  console.log(`Initializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+  const scallop = await createScallopSDK(config);
+  const liquidator = new ScallopLiquidator(scallop, liquidatorSettings(config));
+  // Planned as if the wallet were unlimited, so repay amounts are what the obligations call for;
+  // these are hypothetical plans, so they stay out of the journal and raise no alerts
+  const planner = new ScallopLiquidator(scallop, { ...liquidatorSettings(config), wallet: 'none', journal: undefined, notifications: undefined });
+
+  console.log(`\n[WALLET] ${describeWallet(config)}`);
+  console.log(`   Address: ${config.walletAddress}`);
+  console.log('─'.repeat(70));
+
+  const query = await scallop.createScallopQuery();
+  const [held, { pools, collaterals }] = await Promise.all([liquidator.getHeldCoins(), query.getMarketPools()]);
+  const balances: WalletBalanceReport[] = held.map(coin => {
+    const asset = coin.coinName ? pools[coin.coinName] ?? collaterals[coin.coinName] : undefined;
+    return {
+      ...coin,
+      valueUsd: asset && asset.coinPrice > 0 ? Number(coin.balance) / Math.pow(10, coin.decimals) * asset.coinPrice : null,
+    };
+  }).sort((a, b) => (b.valueUsd ?? -1) - (a.valueUsd ?? -1));
+
+  console.log('\n💰 Balances:');
+  printBalances(balances);
+
+  // Obligations to size the inventory against
+  const entries: ScanEntry[] = await mapWithConcurrency([...new Set(obligationIds)], config.concurrency, async obligationId => {
+    try {
+      return { obligationId, info: await liquidator.queryObligation(obligationId) };
+    } catch (error) {
+      return { obligationId, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  if (useScan) {
+    console.log('\nScanning market for liquidatable obligations...');
+    const result = await new ObligationScanner(liquidator).scan({ maxPages: scanPages, concurrency: config.concurrency });
+    entries.push(...result.entries.filter(entry => !obligationIds.includes(entry.obligationId)));
+  }
+
+  const requirements: WalletRequirement[] = [];
+  for (const entry of entries) {
+    if (!entry.info?.isLiquidatable) continue;
+    try {
+      const plan = await planner.planLiquidation(entry.info);
+      if (!plan || plan.repayAmount === 0n) continue;
+      requirements.push({
+        obligationId: entry.obligationId,
+        riskLevel: entry.info.riskLevel,
+        debtCoinName: plan.debt.coinName,
+        debtSymbol: plan.debt.coinSymbol,
+        collateralCoinName: plan.collateral.coinName,
+        repayAmount: plan.repayAmount.toString(),
+        repayCoin: Number(plan.repayAmount) / plan.debt.amount * plan.debt.amountCoin,
+        limitedBy: plan.limitedBy,
+        estimatedProfitUsd: plan.estimatedProfitUsd,
+      });
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  requirements.sort((a, b) => b.estimatedProfitUsd - a.estimatedProfitUsd);
+
+  let preflight: WalletPreflight | null = null;
+  if (entries.length > 0) {
+    console.log(`\n📋 Liquidatable obligations: ${requirements.length} of ${entries.length} checked`);
+    printRequirements(requirements);
+    for (const entry of entries.filter(entry => entry.error)) {
+      console.log(`   ❗ ${entry.obligationId}: ${entry.error}`);
+    }
+  }
+  if (requirements.length > 0) {
+    preflight = await liquidator.preflight(
+      requirements.map(requirement => ({ debtCoinName: requirement.debtCoinName, amount: BigInt(requirement.repayAmount) })),
+      requirements.length * estimateGasMist({ flashLoan: false, swap: false })
+    );
+    console.log('\n🧮 Required vs held (wallet-funded, one transaction each):');
+    printPreflight(preflight);
+  }
+
+  console.log('\n' + '─'.repeat(70));
+  if (!preflight) {
+    console.log(entries.length > 0 ? '\n✅ Nothing to fund right now' : '\n💡 Pass obligation IDs, --file or --scan to size the wallet against liquidations');
+  } else if (preflight.ok) {
+    console.log(`\n✅ The wallet covers all ${requirements.length} liquidations`);
+  } else {
+    console.log('\n⚠️  The wallet falls short:');
+    for (const problem of preflight.problems) {
+      console.log(`   • ${problem}`);
+    }
+  }
+
+  const exitCode = preflight && !preflight.ok ? EXIT_CODES.failed : EXIT_CODES.succeeded;
+  if (json) {
+    const report: WalletReport = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'wallet',
+      address: config.walletAddress,
+      exitCode,
+      balances,
+      summary: {
+        obligations: entries.length,
+        liquidatable: requirements.length,
+        queryErrors: entries.filter(entry => entry.error).length,
+      },
+      requirements,
+      preflight,
+    };
+    writeJson(report);
+  }
+  return exitCode;
+}
+
+function printBalances(balances: WalletBalanceReport[]) {
+  if (balances.length === 0) {
+    console.log('   (empty)');
+    return;
+  }
+
+  console.log(`   ${'Coin'.padEnd(12)}  ${'Balance'.padStart(20)}  ${'Value $'.padStart(12)}  Coin type`);
+  for (const coin of balances) {
+    console.log(
+      `   ${coin.symbol.padEnd(12)}  ${formatAmount(coin.balance, coin.decimals).padStart(20)}  ` +
+      `${(coin.valueUsd === null ? '-' : coin.valueUsd.toFixed(2)).padStart(12)}  ${coin.coinType}`
+    );
+  }
+}
+
+function printRequirements(requirements: WalletRequirement[]) {
+  if (requirements.length === 0) {
+    console.log('   (none)');
+    return;
+  }
+
+  console.log(`   ${'Obligation'.padEnd(66)}  ${'Risk'.padStart(8)}  ${'Repay'.padStart(18)}  ${'Profit $'.padStart(10)}  Pair`);
+  for (const requirement of requirements) {
+    console.log(
+      `   ${requirement.obligationId.padEnd(66)}  ${((requirement.riskLevel * 100).toFixed(2) + '%').padStart(8)}  ` +
+      `${`${requirement.repayCoin.toFixed(6)} ${requirement.debtSymbol}`.padStart(18)}  ` +
+      `${requirement.estimatedProfitUsd.toFixed(2).padStart(10)}  ${requirement.debtCoinName} → ${requirement.collateralCoinName}`
+    );
+  }
+}
+
+function printPreflight(preflight: WalletPreflight) {
+  console.log(`   ${'Coin'.padEnd(12)}  ${'Required'.padStart(20)}  ${'Held'.padStart(20)}  Status`);
+  for (const check of preflight.checks) {
+    const shortfall = BigInt(check.required) - BigInt(check.balance);
+    console.log(
+      `   ${check.symbol.padEnd(12)}  ${formatAmount(check.required, check.decimals).padStart(20)}  ` +
+      `${formatAmount(check.balance, check.decimals).padStart(20)}  ` +
+      (check.sufficient ? '✅' : `❌ short ${formatAmount(shortfall.toString(), check.decimals)}`)
+    );
+  }
+  console.log(`   SUI includes ~${formatAmount(String(preflight.gasMist), 9)} of estimated gas`);
+}
+
+// Whole coins, or the raw amount for coins without metadata
+function formatAmount(raw: string, decimals: number): string {
+  return decimals === 0 ? raw : (Number(raw) / Math.pow(10, decimals)).toFixed(6);
+}
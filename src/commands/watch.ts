@@ -0,0 +1,135 @@
+/**
+ * `sliq watch` - long-running daemon that re-checks obligations on an interval
+ * and auto-executes profitable liquidations
+ */
+
+import { appendFileSync } from 'node:fs';
+import { createScallopSDK } from '../config.js';
+import { ScallopLiquidator } from '../liquidator.js';
+import { Metrics, serveMetrics, type MetricsServer } from '../metrics.js';
+import { createRpcPool } from '../rpc.js';
+import { ObligationScanner } from '../scanner.js';
+import { ObligationWatcher } from '../watcher.js';
+import type { WatchEvent } from '../types.js';
+import { getFlagValue, getNumberFlag, isObligationId, readObligationList } from './args.js';
+import { loadConfigFromArgs, liquidatorSettings, describeConfigSource, describeWallet, requireSigningKey } from './config-flags.js';
+import { EXIT_CODES, jsonReplacer } from './output.js';
+import { printEndpointStats } from './rpc.js';
+import { parseSwapFlags } from './swap-flags.js';
+
+// How often fullnodes on cooldown are probed so they can rejoin the pool
+const RPC_HEALTH_CHECK_INTERVAL_MS = 30_000;
+// Wallet balances are read at most this often, however often /metrics is scraped
+const WALLET_METRICS_INTERVAL_MS = 60_000;
+
+export async function runWatch(args: string[]): Promise<number> {
+  const file = getFlagValue(args, '--file');
+  const useScan = args.includes('--scan');
+  const scanPages = getNumberFlag(args, '--scan-pages');
+  const logFile = getFlagValue(args, '--log');
+  const autoExecute = args.includes('--execute') || args.includes('-e');
+  const flashLoan = args.includes('--flashloan');
+  const bundle = args.includes('--bundle');
+  const config = loadConfigFromArgs(args);
+  if (autoExecute) {
+    requireSigningKey(config, '--execute', 'drop --execute to only observe');
+  }
+  const { scanMinRisk, intervalSec, maxBackoffSec, concurrency, minProfitUsd, minProfitBps, maxCallsPerTx, metricsPort, metricsHost } = config;
+
+  const obligationIds = args.filter(isObligationId);
+  if (file) {
+    obligationIds.push(...readObligationList(file));
+  }
+
+  if (obligationIds.length === 0 && !useScan) {
+    console.error('Error: Nothing to watch. Pass obligation IDs, --file <path>, and/or --scan.');
+    return EXIT_CODES.error;
+  }
+
+  const configSource = describeConfigSource(config);
+  console.log(`Initializing Scallop SDK...${configSource ? ` (settings from ${configSource})` : ''}`);
+  console.log(`Wallet: ${describeWallet(config)}`);
+  const metrics = metricsPort > 0 ? new Metrics() : undefined;
+  const rpc = createRpcPool(config, metrics);
+  const scallop = await createScallopSDK(config, rpc);
+  const { liquidatorOptions, swapTo } = await parseSwapFlags(args, scallop);
+  const liquidator = new ScallopLiquidator(scallop, { ...liquidatorSettings(config), ...liquidatorOptions, metrics });
+
+  const watcher = new ObligationWatcher(liquidator, {
+    intervalMs: intervalSec * 1000,
+    maxBackoffMs: maxBackoffSec * 1000,
+    autoExecute,
+    flashLoan,
+    swapTo,
+    concurrency,
+    bundle,
+    maxCallsPerTx,
+    onEvent: (event: WatchEvent) => {
+      // Events always go to stdout, one per line; with --json everything else goes to stderr
+      const line = JSON.stringify(event, jsonReplacer);
+      process.stdout.write(line + '\n');
+      if (logFile) {
+        appendFileSync(logFile, line + '\n');
+      }
+    },
+  });
+
+  let metricsServer: MetricsServer | undefined;
+  if (metrics) {
+    metrics.addCollector(() => {
+      metrics.setTrackedObligations(watcher.countByState());
+      metrics.setRpcHealth(rpc.stats());
+    });
+    if (config.walletAddress) {
+      let balancesReadAt = 0;
+      metrics.addCollector(async () => {
+        if (Date.now() - balancesReadAt < WALLET_METRICS_INTERVAL_MS) return;
+        balancesReadAt = Date.now();
+        metrics.setWalletBalances(await liquidator.getHeldCoins(config.walletAddress));
+      });
+    }
+    metricsServer = await serveMetrics(metrics, metricsPort, metricsHost);
+    console.log(`📈 Prometheus metrics on ${metricsServer.url}`);
+  }
+
+  watcher.track(obligationIds);
+
+  if (useScan) {
+    console.log(`Scanning market for obligations at or above ${scanMinRisk}% risk...`);
+    const scanner = new ObligationScanner(liquidator);
+    const result = await scanner.scan({ maxPages: scanPages, concurrency });
+    watcher.track(
+      result.entries
+        .filter(entry => entry.info && entry.info.riskLevel * 100 >= scanMinRisk)
+        .map(entry => entry.obligationId)
+    );
+  }
+
+  if (watcher.size === 0) {
+    console.error('Error: No obligations to watch.');
+    await metricsServer?.close();
+    return EXIT_CODES.error;
+  }
+
+  const modeLabel = autoExecute
+    ? `auto-execute above $${minProfitUsd}${minProfitBps ? ` / ${minProfitBps} bps` : ''}${flashLoan ? ' with flash loans' : ''}${swapTo ? `, swapping collateral to ${swapTo}` : ''}${bundle ? `, bundling up to ${maxCallsPerTx} per transaction` : ''}`
+    : 'observe only';
+  console.log(`\n[WATCH MODE] ${watcher.size} obligations, every ${intervalSec}s, ${modeLabel}`);
+  console.log('Press Ctrl+C to stop (pending transactions are allowed to finish).');
+
+  const shutdown = () => watcher.stop();
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  const stopHealthChecks = rpc.startHealthChecks(RPC_HEALTH_CHECK_INTERVAL_MS);
+  try {
+    await watcher.run();
+  } finally {
+    stopHealthChecks();
+    await metricsServer?.close();
+  }
+
+  console.log('\n📡 RPC usage:');
+  printEndpointStats(rpc.stats());
+  return EXIT_CODES.succeeded;
+}
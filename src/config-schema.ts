@@ -0,0 +1,340 @@
+/**
+ * sliq.config.json schema - which settings a config file, profile, env var or flag may set
+ *
+ * A config file holds top-level settings plus named profiles that override them:
+ *   { "minProfitUsd": 1, "profiles": { "aggressive": { "minProfitUsd": 0.1 } }, "defaultProfile": "aggressive" }
+ * Validation collects every problem and names where each one was found.
+ */
+
+import { NOTIFICATION_SEVERITIES, NOTIFICATION_TYPES, NOTIFIER_TYPES, TEMPLATE_FIELDS } from './notify.js';
+import type { Settings } from './types.js';
+
+type SettingKind =
+  | 'url' | 'urlList' | 'amount' | 'count' | 'retries' | 'basisPoints' | 'percent' | 'coinList' | 'coinAmounts' | 'path' | 'notifiers'
+  | 'port' | 'host';
+
+interface SettingSpec {
+  kind: SettingKind;
+  env: string;                  // Environment variable that overrides the file
+}
+
+export const SETTINGS: Record<keyof Settings, SettingSpec> = {
+  rpcUrl: { kind: 'url', env: 'RPC_URL' },
+  rpcFallbackUrls: { kind: 'urlList', env: 'RPC_FALLBACK_URLS' },
+  rpcRateLimit: { kind: 'count', env: 'SLIQ_RPC_RATE_LIMIT' },
+  rpcTimeoutMs: { kind: 'count', env: 'SLIQ_RPC_TIMEOUT_MS' },
+  rpcMaxRetries: { kind: 'retries', env: 'SLIQ_RPC_MAX_RETRIES' },
+  minProfitUsd: { kind: 'amount', env: 'SLIQ_MIN_PROFIT_USD' },
+  minProfitBps: { kind: 'amount', env: 'SLIQ_MIN_PROFIT_BPS' },
+  slippageBps: { kind: 'basisPoints', env: 'SLIQ_SLIPPAGE_BPS' },
+  maxRepay: { kind: 'coinAmounts', env: 'SLIQ_MAX_REPAY' },
+  allowCoins: { kind: 'coinList', env: 'SLIQ_ALLOW_COINS' },
+  denyCoins: { kind: 'coinList', env: 'SLIQ_DENY_COINS' },
+  concurrency: { kind: 'count', env: 'SLIQ_CONCURRENCY' },
+  intervalSec: { kind: 'count', env: 'SLIQ_INTERVAL_SEC' },
+  maxBackoffSec: { kind: 'count', env: 'SLIQ_MAX_BACKOFF_SEC' },
+  scanMinRisk: { kind: 'percent', env: 'SLIQ_SCAN_MIN_RISK' },
+  maxCallsPerTx: { kind: 'count', env: 'SLIQ_MAX_CALLS_PER_TX' },
+  journalPath: { kind: 'path', env: 'SLIQ_JOURNAL' },
+  notifications: { kind: 'notifiers', env: 'SLIQ_NOTIFY' },
+  metricsPort: { kind: 'port', env: 'SLIQ_METRICS_PORT' },
+  metricsHost: { kind: 'host', env: 'SLIQ_METRICS_HOST' },
+};
+
+const NOTIFIER_KEYS = ['type', 'url', 'botToken', 'chatId', 'apiUrl', 'events', 'minSeverity', 'rateLimitPerMin', 'repeatAfterSec', 'templates'];
+
+const EXPECTED: Record<SettingKind, string> = {
+  url: 'an http(s) URL',
+  urlList: 'a list of http(s) URLs',
+  amount: 'a non-negative number',
+  count: 'a positive integer',
+  retries: 'a non-negative integer',
+  basisPoints: 'basis points from 0 to 9999',
+  percent: 'a percentage from 0 to 100',
+  coinList: 'a list of coin names (e.g. ["sui", "usdc"])',
+  coinAmounts: 'an object of coin name to amount (e.g. { "usdc": 1000 })',
+  path: 'a file path ("" turns it off)',
+  notifiers: 'a list of channels (e.g. [{ "type": "webhook", "url": "https://..." }])',
+  port: 'a TCP port from 1 to 65535 (0 turns it off)',
+  host: 'a hostname or IP address (e.g. "127.0.0.1", "0.0.0.0")',
+};
+
+export interface ConfigFile {
+  settings: Partial<Settings>;
+  profiles: Record<string, Partial<Settings>>;
+  defaultProfile?: string;
+}
+
+/**
+ * Validate a parsed config file; throws one error listing every problem
+ */
+export function parseConfigFile(document: unknown, source: string): ConfigFile {
+  const errors: string[] = [];
+  if (!isObject(document)) {
+    throw new Error(`${source}: expected a JSON object at the top level`);
+  }
+
+  const { profiles = {}, defaultProfile, ...settings } = document;
+  const file: ConfigFile = { settings: checkSettings(settings, key => key, errors, ['profiles', 'defaultProfile']), profiles: {} };
+
+  if (!isObject(profiles)) {
+    errors.push(`profiles must be an object of profile name to settings (got ${describe(profiles)})`);
+  } else {
+    for (const [name, profile] of Object.entries(profiles)) {
+      if (!isObject(profile)) {
+        errors.push(`profiles.${name} must be an object of settings (got ${describe(profile)})`);
+        continue;
+      }
+      file.profiles[name] = checkSettings(profile, key => `profiles.${name}.${key}`, errors);
+    }
+  }
+
+  if (defaultProfile !== undefined) {
+    if (typeof defaultProfile !== 'string') {
+      errors.push(`defaultProfile must be a profile name (got ${describe(defaultProfile)})`);
+    } else if (isObject(profiles) && !(defaultProfile in profiles)) {
+      errors.push(`defaultProfile "${defaultProfile}" is not defined under profiles`);
+    } else {
+      file.defaultProfile = defaultProfile;
+    }
+  }
+
+  throwIfInvalid(errors, source);
+  return file;
+}
+
+/**
+ * Validate settings from somewhere other than the file (CLI flags); undefined values are dropped
+ */
+export function parseSettings(values: Partial<Record<keyof Settings, unknown>>, source: string): Partial<Settings> {
+  const errors: string[] = [];
+  const defined = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+  const settings = checkSettings(defined, key => key, errors);
+  throwIfInvalid(errors, source);
+  return settings;
+}
+
+/**
+ * Read overrides from the environment (SLIQ_MIN_PROFIT_USD=1, SLIQ_DENY_COINS=sca,cetus, ...)
+ */
+export function readEnvSettings(env: NodeJS.ProcessEnv): Partial<Settings> {
+  const errors: string[] = [];
+  const settings: Partial<Settings> = {};
+  for (const [key, spec] of Object.entries(SETTINGS) as Array<[keyof Settings, SettingSpec]>) {
+    const raw = env[spec.env]?.trim();
+    if (!raw) continue;
+    Object.assign(settings, checkSettings({ [key]: parseSettingText(key, raw) }, () => spec.env, errors));
+  }
+  throwIfInvalid(errors, 'environment');
+  return settings;
+}
+
+/**
+ * Turn the text form of a setting (env var or CLI flag) into its JSON shape
+ *   coin lists: "sui,usdc"    coin amounts: "usdc=1000,sui=500"    numbers: "1.5"
+ *   notification channels: the same JSON as in the file
+ */
+export function parseSettingText(key: keyof Settings, text: string): unknown {
+  switch (SETTINGS[key].kind) {
+    case 'url':
+    case 'path':
+    case 'host':
+      return text;
+    case 'notifiers':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    case 'urlList':
+    case 'coinList':
+      return splitList(text);
+    case 'coinAmounts':
+      return Object.fromEntries(splitList(text).map(item => {
+        const [coin, amount] = item.split('=');
+        return [coin.trim(), amount === undefined ? item : toNumber(amount.trim())];
+      }));
+    default:
+      return toNumber(text);
+  }
+}
+
+// `label` names a setting in errors: its path in the file, or its env var
+function checkSettings(
+  values: Record<string, unknown>,
+  label: (key: string) => string,
+  errors: string[],
+  otherKeys: string[] = []
+): Partial<Settings> {
+  const settings: Partial<Record<keyof Settings, unknown>> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const spec = SETTINGS[key as keyof Settings];
+    if (!spec) {
+      const known = [...Object.keys(SETTINGS), ...otherKeys].join(', ');
+      errors.push(`${label(key)} is not a known setting (expected one of: ${known})`);
+      continue;
+    }
+    const problem = checkValue(spec.kind, value, label(key));
+    if (problem) {
+      errors.push(problem);
+    } else {
+      settings[key as keyof Settings] = normalize(spec.kind, value);
+    }
+  }
+  return settings as Partial<Settings>;
+}
+
+function checkValue(kind: SettingKind, value: unknown, path: string): string | undefined {
+  const invalid = `${path} must be ${EXPECTED[kind]} (got ${describe(value)})`;
+  switch (kind) {
+    case 'url':
+      return isUrl(value) ? undefined : invalid;
+    case 'urlList':
+      return Array.isArray(value) && value.every(isUrl) ? undefined : invalid;
+    case 'amount':
+      return isNumber(value) && value >= 0 ? undefined : invalid;
+    case 'count':
+      return Number.isInteger(value) && (value as number) > 0 ? undefined : invalid;
+    case 'retries':
+      return Number.isInteger(value) && (value as number) >= 0 ? undefined : invalid;
+    case 'basisPoints':
+      return isNumber(value) && value >= 0 && value < 10_000 ? undefined : invalid;
+    case 'percent':
+      return isNumber(value) && value >= 0 && value <= 100 ? undefined : invalid;
+    case 'coinList':
+      return Array.isArray(value) && value.every(isCoinName) ? undefined : invalid;
+    case 'path':
+      return typeof value === 'string' ? undefined : invalid;
+    case 'port':
+      return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 65_535 ? undefined : invalid;
+    case 'host':
+      return typeof value === 'string' && /^\S+$/.test(value) ? undefined : invalid;
+    case 'notifiers':
+      return Array.isArray(value) ? checkNotifiers(value, path) : invalid;
+    case 'coinAmounts': {
+      if (!isObject(value)) return invalid;
+      for (const [coin, amount] of Object.entries(value)) {
+        if (!isCoinName(coin)) return `${path} has an invalid coin name ${describe(coin)}`;
+        if (!isNumber(amount) || amount < 0) return `${path}.${coin} must be a non-negative number of coins (got ${describe(amount)})`;
+      }
+      return undefined;
+    }
+  }
+}
+
+// Each channel: a known type, where it sends to, and optional filters, limits and templates
+function checkNotifiers(channels: unknown[], path: string): string | undefined {
+  const oneOf = (values: readonly string[]) => `one of: ${values.join(', ')}`;
+  for (const [index, channel] of channels.entries()) {
+    const at = `${path}[${index}]`;
+    if (!isObject(channel)) {
+      return `${at} must be an object (got ${describe(channel)})`;
+    }
+    const unknown = Object.keys(channel).find(key => !NOTIFIER_KEYS.includes(key));
+    if (unknown) {
+      return `${at}.${unknown} is not a known channel setting (expected ${oneOf(NOTIFIER_KEYS)})`;
+    }
+    if (!NOTIFIER_TYPES.includes(channel.type as never)) {
+      return `${at}.type must be ${oneOf(NOTIFIER_TYPES)} (got ${describe(channel.type)})`;
+    }
+
+    if (channel.type === 'telegram') {
+      if (!(typeof channel.chatId === 'string' && channel.chatId !== '') && !Number.isInteger(channel.chatId)) {
+        return `${at}.chatId must be a Telegram chat ID (got ${describe(channel.chatId)})`;
+      }
+      if (channel.botToken !== undefined && typeof channel.botToken !== 'string') {
+        return `${at}.botToken must be a string (got ${describe(channel.botToken)})`;
+      }
+      if (channel.apiUrl !== undefined && !isUrl(channel.apiUrl)) {
+        return `${at}.apiUrl must be an http(s) URL (got ${describe(channel.apiUrl)})`;
+      }
+    } else if (!isUrl(channel.url)) {
+      return `${at}.url must be an http(s) URL (got ${describe(channel.url)})`;
+    }
+
+    if (channel.events !== undefined &&
+      !(Array.isArray(channel.events) && channel.events.every(event => NOTIFICATION_TYPES.includes(event)))) {
+      return `${at}.events must be a list of ${oneOf(NOTIFICATION_TYPES)} (got ${describe(channel.events)})`;
+    }
+    if (channel.minSeverity !== undefined && !NOTIFICATION_SEVERITIES.includes(channel.minSeverity as never)) {
+      return `${at}.minSeverity must be ${oneOf(NOTIFICATION_SEVERITIES)} (got ${describe(channel.minSeverity)})`;
+    }
+    if (channel.rateLimitPerMin !== undefined && !(Number.isInteger(channel.rateLimitPerMin) && (channel.rateLimitPerMin as number) > 0)) {
+      return `${at}.rateLimitPerMin must be a positive integer (got ${describe(channel.rateLimitPerMin)})`;
+    }
+    if (channel.repeatAfterSec !== undefined && !(Number.isInteger(channel.repeatAfterSec) && (channel.repeatAfterSec as number) >= 0)) {
+      return `${at}.repeatAfterSec must be a non-negative integer (got ${describe(channel.repeatAfterSec)})`;
+    }
+
+    if (channel.templates !== undefined) {
+      if (!isObject(channel.templates)) {
+        return `${at}.templates must be an object of notification type to text (got ${describe(channel.templates)})`;
+      }
+      for (const [type, template] of Object.entries(channel.templates)) {
+        if (!NOTIFICATION_TYPES.includes(type as never)) {
+          return `${at}.templates.${type} is not a notification type (expected ${oneOf(NOTIFICATION_TYPES)})`;
+        }
+        if (typeof template !== 'string') {
+          return `${at}.templates.${type} must be text (got ${describe(template)})`;
+        }
+        const placeholder = [...template.matchAll(/\{(\w+)\}/g)].find(([, name]) => !TEMPLATE_FIELDS.includes(name as never));
+        if (placeholder) {
+          return `${at}.templates.${type} uses an unknown placeholder ${placeholder[0]} (expected ${oneOf(TEMPLATE_FIELDS)})`;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+// Scallop coin names are lowercase ("usdc", "wusdc", "vsui")
+function normalize(kind: SettingKind, value: unknown): unknown {
+  if (kind === 'coinList') {
+    return (value as string[]).map(coin => coin.toLowerCase());
+  }
+  if (kind === 'coinAmounts') {
+    return Object.fromEntries(Object.entries(value as Record<string, number>).map(([coin, amount]) => [coin.toLowerCase(), amount]));
+  }
+  // Telegram chat IDs may be written as numbers
+  if (kind === 'notifiers') {
+    return (value as Array<Record<string, unknown>>).map(channel =>
+      channel.chatId === undefined ? channel : { ...channel, chatId: String(channel.chatId) }
+    );
+  }
+  return value;
+}
+
+function throwIfInvalid(errors: string[], source: string): void {
+  if (errors.length === 0) return;
+  throw new Error(`Invalid settings in ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// Leave unparseable text as-is so the error shows what was written
+function toNumber(text: string): unknown {
+  const parsed = Number(text);
+  return text !== '' && Number.isFinite(parsed) ? parsed : text;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isUrl(value: unknown): boolean {
+  return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
+
+function isCoinName(value: unknown): boolean {
+  return typeof value === 'string' && /^[a-zA-Z0-9_]+$/.test(value);
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
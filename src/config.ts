@@ -1,33 +1,119 @@
 /**
  * Configuration module for Scallop Liquidator
+ *
+ * Settings are layered, later sources winning:
+ *   defaults → sliq.config.json → selected profile → env vars → CLI flags
+ * The signing key is resolved separately (see keys.ts) and never read from the config file.
  */
 
+import { existsSync, readFileSync } from 'node:fs';
 import dotenv from 'dotenv';
 import { Scallop } from '@scallop-io/sui-scallop-sdk';
-import type { Config } from './types.js';
+import { parseConfigFile, parseSettings, readEnvSettings } from './config-schema.js';
+import { resolveKey, type KeyOptions } from './keys.js';
+import { DEFAULT_JOURNAL_PATH } from './journal.js';
+import { DEFAULT_MAX_CALLS_PER_TX, DEFAULT_SLIPPAGE_BPS } from './liquidator.js';
+import { DEFAULT_METRICS_HOST } from './metrics.js';
+import { DEFAULT_MIN_PROFIT_USD, DEFAULT_MIN_PROFIT_BPS } from './profit.js';
+import { createRpcPool, DEFAULT_RPC_MAX_RETRIES, DEFAULT_RPC_RATE_LIMIT, DEFAULT_RPC_TIMEOUT_MS, type RpcPool } from './rpc.js';
+import type { Config, Settings } from './types.js';
 
 dotenv.config();
 
-export function loadConfig(): Config {
-  const privateKey = process.env.PRIVATE_KEY;
+export const DEFAULT_CONFIG_PATH = 'sliq.config.json';
 
-  if (!privateKey) {
-    throw new Error('PRIVATE_KEY environment variable is required. Copy .env.example to .env and set your private key.');
+export const DEFAULT_SETTINGS: Settings = {
+  rpcFallbackUrls: [],
+  rpcRateLimit: DEFAULT_RPC_RATE_LIMIT,
+  rpcTimeoutMs: DEFAULT_RPC_TIMEOUT_MS,
+  rpcMaxRetries: DEFAULT_RPC_MAX_RETRIES,
+  minProfitUsd: DEFAULT_MIN_PROFIT_USD,
+  minProfitBps: DEFAULT_MIN_PROFIT_BPS,
+  slippageBps: DEFAULT_SLIPPAGE_BPS,
+  maxRepay: {},
+  denyCoins: [],
+  concurrency: 5,
+  intervalSec: 15,
+  maxBackoffSec: 300,
+  scanMinRisk: 90,
+  maxCallsPerTx: DEFAULT_MAX_CALLS_PER_TX,
+  journalPath: DEFAULT_JOURNAL_PATH,
+  notifications: [],
+  metricsPort: 0,
+  metricsHost: DEFAULT_METRICS_HOST,
+};
+
+export interface LoadConfigOptions {
+  configPath?: string;              // Config file (default: $SLIQ_CONFIG, else ./sliq.config.json if present)
+  profile?: string;                 // Profile to apply (default: $SLIQ_PROFILE, else the file's defaultProfile)
+  overrides?: Partial<Record<keyof Settings, unknown>>;  // From CLI flags; undefined values are ignored
+  key?: KeyOptions;                 // Keystore, address and watch-only flags
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const key = resolveKey(options.key ?? {}, process.env);
+
+  // An explicitly named file must exist; the default one is optional
+  const explicitPath = options.configPath ?? process.env.SLIQ_CONFIG;
+  const configPath = explicitPath ?? (existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : undefined);
+  const file = configPath ? readConfigFile(configPath) : undefined;
+
+  const profile = options.profile ?? process.env.SLIQ_PROFILE ?? file?.defaultProfile;
+  if (profile && !file?.profiles[profile]) {
+    const available = Object.keys(file?.profiles ?? {});
+    throw new Error(
+      `Unknown profile "${profile}"` +
+      (configPath ? ` in ${configPath}` : ' (no config file found)') +
+      (available.length > 0 ? `. Available: ${available.join(', ')}` : '')
+    );
   }
 
   return {
-    privateKey,
-    rpcUrl: process.env.RPC_URL,
+    ...DEFAULT_SETTINGS,
+    ...file?.settings,
+    ...(profile ? file!.profiles[profile] : {}),
+    ...readEnvSettings(process.env),
+    ...parseSettings(options.overrides ?? {}, 'command-line flags'),
+    ...key,
     networkType: 'mainnet', // SDK only supports mainnet
+    configPath,
+    profile,
   };
 }
 
-export async function createScallopSDK(config: Config): Promise<Scallop> {
+function readConfigFile(path: string) {
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseConfigFile(document, path);
+}
+
+/**
+ * Scallop SDK whose RPC calls, and those of the liquidator's raw client, all go through `rpc`
+ * Watch-only, the SDK gets the watched address (or, without one, its own throwaway key).
+ */
+export async function createScallopSDK(config: Config, rpc: RpcPool = createRpcPool(config)): Promise<Scallop> {
   const scallop = new Scallop({
     networkType: config.networkType,
-    secretKey: config.privateKey,
+    secretKey: config.secretKey,
+    walletAddress: config.walletAddress,
+    // Only names the node in the SDK's query cache keys; the client below does the requests
+    fullnodeUrls: [rpc.primaryUrl],
   });
 
+  // One interactor serves the whole SDK; swap its per-URL clients for a single pool-backed one
+  const interactor = scallop.client.utils.scallopSuiKit.suiKit.suiInteractor;
+  const client = rpc.createClient();
+  (interactor as unknown as { clients: unknown[] }).clients = [client];
+  interactor.currentClient = client;
+
   await scallop.init();
 
   return scallop;
@@ -0,0 +1,128 @@
+/**
+ * Liquidation error codes - decode Move aborts instead of matching on error text
+ *
+ * A dry run or execution that aborts reports a string like:
+ *   MoveAbort(MoveLocation { module: ModuleId { address: efe8…, name: Identifier("liquidate") },
+ *     function: 1, instruction: 116, function_name: Some("liquidate") }, 1537) in command 2
+ * which is parsed into module, function and abort code and mapped to a LiquidationErrorCode.
+ */
+
+import type { MoveAbortInfo } from './types.js';
+
+export enum LiquidationErrorCode {
+  ObligationLocked = 'OBLIGATION_LOCKED',             // Staked in borrow incentives; only the owner can unlock it
+  NothingToLiquidate = 'NOTHING_TO_LIQUIDATE',        // Obligation healthy again, or the repay amount rounds to zero
+  OracleStalePrice = 'ORACLE_STALE_PRICE',
+  OraclePriceNotFound = 'ORACLE_PRICE_NOT_FOUND',
+  OracleZeroPrice = 'ORACLE_ZERO_PRICE',
+  FlashLoanRepayShortfall = 'FLASH_LOAN_REPAY_SHORTFALL',
+  OutflowLimitReached = 'OUTFLOW_LIMIT_REACHED',      // Pool's rate limit on outflows (paused for now)
+  VersionMismatch = 'VERSION_MISMATCH',               // Protocol upgraded; the SDK needs updating
+  NotWhitelisted = 'NOT_WHITELISTED',
+  InsufficientCoinValue = 'INSUFFICIENT_COIN_VALUE',  // A coin split came up short (swap output below its minimum)
+  InsufficientBalance = 'INSUFFICIENT_BALANCE',       // Wallet doesn't hold enough of the repay coin
+  InsufficientGas = 'INSUFFICIENT_GAS',               // Wallet doesn't hold enough SUI to pay for gas
+  UnsupportedCoin = 'UNSUPPORTED_COIN',
+  NotProfitable = 'NOT_PROFITABLE',
+  WatchOnly = 'WATCH_ONLY',                           // No signing key loaded; only dry runs are possible
+  MoveAbort = 'MOVE_ABORT',                           // An abort this table doesn't know; see `abort` for the raw code
+  Unknown = 'UNKNOWN',
+}
+
+// Scallop protocol error constants (protocol::error, 0x<category><index>)
+const PROTOCOL_ABORT_CODES: Record<number, LiquidationErrorCode> = {
+  0x101: LiquidationErrorCode.NotWhitelisted,
+  0x201: LiquidationErrorCode.VersionMismatch,
+  0x302: LiquidationErrorCode.ObligationLocked,
+  0x401: LiquidationErrorCode.OracleStalePrice,
+  0x402: LiquidationErrorCode.OraclePriceNotFound,
+  0x403: LiquidationErrorCode.OracleZeroPrice,
+  0x503: LiquidationErrorCode.FlashLoanRepayShortfall,
+  0x601: LiquidationErrorCode.NothingToLiquidate,
+  0x901: LiquidationErrorCode.OutflowLimitReached,
+};
+
+// Move stdlib (0x1) and Sui framework (0x2) packages
+const FRAMEWORK_ADDRESSES = new Set(['1', '2']);
+
+// sui::balance::ENotEnough
+const BALANCE_NOT_ENOUGH = 2;
+
+const MOVE_ABORT_PATTERN = new RegExp(
+  'MoveAbort\\(MoveLocation \\{ module: ModuleId \\{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\\("([^"]+)"\\) \\}, ' +
+  'function: \\d+, instruction: \\d+, function_name: (?:Some\\("([^"]+)"\\)|None) \\}, (\\d+)\\)(?: in command (\\d+))?'
+);
+
+/**
+ * Parse a MoveAbort out of an error message
+ * Returns null when the message isn't a Move abort (RPC errors, SDK errors, ...)
+ */
+export function decodeMoveAbort(message: string): MoveAbortInfo | null {
+  const match = MOVE_ABORT_PATTERN.exec(message);
+  if (!match) {
+    return null;
+  }
+
+  const [, address, module, functionName, code, command] = match;
+  return {
+    address: `0x${address.replace(/^0+(?=.)/, '')}`,
+    module,
+    functionName,
+    code: Number(code),
+    command: command === undefined ? undefined : Number(command),
+  };
+}
+
+/**
+ * Map a failure message to a LiquidationErrorCode (plus the decoded abort, if any)
+ * Abort codes are only read as protocol::error constants when raised by one of
+ * `protocolPackages`; swap routers and other packages reuse the same numbers.
+ */
+export function classifyError(
+  message: string,
+  protocolPackages: string[] = []
+): { code: LiquidationErrorCode; abort?: MoveAbortInfo } {
+  const abort = decodeMoveAbort(message);
+  if (abort) {
+    return { code: classifyAbort(abort, protocolPackages), abort };
+  }
+
+  // Gas payment failures from the fullnode or the transaction builder
+  if (message.includes('InsufficientGas') || message.includes('No valid gas coins') || message.includes('lower than the needed amount')) {
+    return { code: LiquidationErrorCode.InsufficientGas };
+  }
+
+  // Errors raised by the SDK while building the transaction
+  if (message.includes('No valid coins') || message.includes('Insufficient')) {
+    return { code: LiquidationErrorCode.InsufficientBalance };
+  }
+  if (message.includes('Cannot convert undefined') || message.includes('Cannot convert null')) {
+    return { code: LiquidationErrorCode.UnsupportedCoin };
+  }
+  return { code: LiquidationErrorCode.Unknown };
+}
+
+function classifyAbort(abort: MoveAbortInfo, protocolPackages: string[]): LiquidationErrorCode {
+  // Framework abort codes are small integers that mean something different per module
+  if (FRAMEWORK_ADDRESSES.has(abort.address.slice(2))) {
+    return abort.module === 'balance' && abort.code === BALANCE_NOT_ENOUGH
+      ? LiquidationErrorCode.InsufficientCoinValue
+      : LiquidationErrorCode.MoveAbort;
+  }
+  if (!protocolPackages.some(id => normalizeAddress(id) === normalizeAddress(abort.address))) {
+    return LiquidationErrorCode.MoveAbort;
+  }
+  return PROTOCOL_ABORT_CODES[abort.code] ?? LiquidationErrorCode.MoveAbort;
+}
+
+function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/i, '').replace(/^0+(?=.)/, '').toLowerCase()}`;
+}
+
+/**
+ * Short form of an abort for logs, e.g. "0x2::balance::split aborted with 2"
+ */
+export function formatMoveAbort(abort: MoveAbortInfo): string {
+  const address = abort.address.length > 10 ? `${abort.address.slice(0, 6)}…${abort.address.slice(-4)}` : abort.address;
+  return `${address}::${abort.module}::${abort.functionName ?? '?'} aborted with ${abort.code}`;
+}
@@ -3,216 +3,75 @@
  *
  * Usage:
  *   pnpm sliq <obligation_id> [--check|--execute|--force]
+ *   pnpm sliq scan [--cursor <cursor>] [--limit <n>] [--pages <n>]
+ *   pnpm sliq watch [<obligation_id>...] [--file <path>] [--scan] [--execute]
+ *   pnpm sliq batch <file|-> [--check|--execute|--force]
+ *   pnpm sliq rpc [--probes <n>]
+ *   pnpm sliq submit <tx-file> <signature...>
+ *   pnpm sliq wallet [<obligation_id>...] [--file <path>] [--scan]
+ *   pnpm sliq history [--since <when>] [--coin <coin>] [--outcome <list>]
+ *   pnpm sliq notify [--type <type>]
  *
  * Modes:
  *   --check    Check obligation status and liquidation opportunity (default)
  *   --execute  Execute liquidation if profitable
  *   --force    Force execute liquidation, bypass profit check
+ *   --simulate Dry-run the execute/force flow without signing
  */
 
-import { loadConfig, createScallopSDK } from './config.js';
-import { ScallopLiquidator } from './liquidator.js';
-
-type Mode = 'check' | 'execute' | 'force';
-
-function parseMode(args: string[]): Mode {
-  if (args.includes('--force') || args.includes('-f')) return 'force';
-  if (args.includes('--execute') || args.includes('-e')) return 'execute';
-  return 'check';
-}
-
-async function main() {
+import { runBatch } from './commands/batch.js';
+import { runHistory } from './commands/history.js';
+import { runNotify } from './commands/notify.js';
+import { runObligation } from './commands/obligation.js';
+import { runRpc } from './commands/rpc.js';
+import { runScan } from './commands/scan.js';
+import { runSubmit } from './commands/submit.js';
+import { runWallet } from './commands/wallet.js';
+import { runWatch } from './commands/watch.js';
+import { EXIT_CODES, JSON_SCHEMA_VERSION, reserveStdoutForJson, writeJson } from './commands/output.js';
+import { flushNotifications } from './notify.js';
+
+async function main(): Promise<number> {
   const args = process.argv.slice(2);
 
   if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
     printUsage();
-    process.exit(0);
+    return 0;
   }
 
-  const obligationId = args[0];
-  const mode = parseMode(args);
-
-  // Validate obligation ID format
-  if (!obligationId.startsWith('0x') || obligationId.length !== 66) {
-    console.error('Error: Invalid obligation ID format. Expected 0x followed by 64 hex characters.');
-    process.exit(1);
+  const json = args.includes('--json');
+  if (json) {
+    reserveStdoutForJson();
   }
 
   try {
-    console.log('Initializing Scallop SDK...');
-    const config = loadConfig();
-    const scallop = await createScallopSDK(config);
-    const liquidator = new ScallopLiquidator(scallop);
-
-    const modeLabel = mode === 'force' ? 'FORCE' : mode.toUpperCase();
-    console.log(`\n[${modeLabel} MODE] Querying obligation: ${obligationId}`);
-    console.log('─'.repeat(70));
-
-    const obligationInfo = await liquidator.queryObligation(obligationId);
-
-    // Display obligation info
-    console.log('\n📊 Obligation Status:');
-    console.log(`   ID: ${obligationInfo.obligationId}`);
-    console.log(`   Risk Level: ${(obligationInfo.riskLevel * 100).toFixed(2)}%`);
-    console.log(`   Liquidatable: ${obligationInfo.isLiquidatable ? '✅ YES' : '❌ NO'}`);
-
-    // Display collaterals
-    console.log('\n💰 Collaterals:');
-    if (obligationInfo.collaterals.length === 0) {
-      console.log('   (none)');
-    } else {
-      for (const collateral of obligationInfo.collaterals) {
-        const displayName = collateral.coinSymbol || collateral.coinName;
-        console.log(`   • ${displayName}: ${collateral.amountCoin.toFixed(4)} (~$${collateral.valueUsd.toFixed(2)})`);
-        if (collateral.coinDisplayName && collateral.coinDisplayName !== displayName) {
-          console.log(`     └─ ${collateral.coinDisplayName}`);
-        }
-      }
-    }
-
-    // Display debts
-    console.log('\n💳 Debts:');
-    if (obligationInfo.debts.length === 0) {
-      console.log('   (none)');
-    } else {
-      for (const debt of obligationInfo.debts) {
-        const displayName = debt.coinSymbol || debt.coinName;
-        console.log(`   • ${displayName}: ${debt.amountCoin.toFixed(4)} (~$${debt.valueUsd.toFixed(2)})`);
-        if (debt.coinDisplayName && debt.coinDisplayName !== displayName) {
-          console.log(`     └─ ${debt.coinDisplayName}`);
-        }
-        // Show coin type for clarity (especially for bad debt)
-        console.log(`     └─ Type: ${debt.coinType}`);
-      }
-    }
-
-    console.log('\n' + '─'.repeat(70));
-
-    // Check for bad debt (debt but no collateral)
-    const isBadDebt = obligationInfo.debts.length > 0 && obligationInfo.collaterals.length === 0;
-
-    if (isBadDebt) {
-      console.log('\n🚨 BAD DEBT DETECTED!');
-      console.log('   This obligation has debt but NO collateral.');
-      console.log('   Standard liquidation is not possible.');
-
-      if (mode !== 'force') {
-        console.log('\n💡 Use --force to attempt a direct repayment (experimental)');
-        process.exit(0);
-      }
-      console.log('\n⚠️  Force mode: attempting direct repayment...');
-    }
-
-    // If not liquidatable, exit (unless force mode)
-    if (!obligationInfo.isLiquidatable && !isBadDebt) {
-      console.log('\n⚠️  This obligation is not liquidatable (Risk Level < 100%)');
-      if (mode !== 'force') {
-        console.log('✓  Check complete - no action needed');
-        process.exit(0);
-      }
-      console.log('⚠️  Force mode: attempting liquidation anyway...');
-    }
-
-    // Handle bad debt case (force repayment without collateral)
-    if (isBadDebt && mode === 'force') {
-      const primaryDebt = obligationInfo.debts[0];
-      const coinDisplay = primaryDebt.coinSymbol || primaryDebt.coinName.toUpperCase();
-
-      // Repay full bad debt amount (100%)
-      const repayPercentage = 1.0;
-      const repayAmountRaw = BigInt(Math.floor(primaryDebt.amount * repayPercentage));
-      const repayAmountHuman = primaryDebt.amountCoin * repayPercentage;
-
-      console.log('\n📈 Bad Debt Repayment:');
-      console.log(`   Coin: ${coinDisplay} (${primaryDebt.coinDisplayName || coinDisplay})`);
-      console.log(`   Coin Type: ${primaryDebt.coinType}`);
-      console.log(`   Total debt: ${primaryDebt.amountCoin.toFixed(6)} ${coinDisplay}`);
-      console.log(`   Repay amount (100%): ${repayAmountHuman.toFixed(6)} ${coinDisplay}`);
-      console.log(`   Raw amount: ${repayAmountRaw.toString()}`);
-      console.log(`   ⚠️  WARNING: You will NOT receive any collateral in return!`);
-      console.log(`\n💰 Required: ${repayAmountHuman.toFixed(6)} ${coinDisplay} in your wallet`);
-      console.log(`   Coin type needed: ${primaryDebt.coinType}`);
-
-      console.log('\n🚀 Executing bad debt repayment...');
-
-      const result = await liquidator.repayBadDebt(
-        obligationId,
-        primaryDebt.coinName,
-        repayAmountRaw
-      );
-
-      if (result.success) {
-        console.log('\n✅ Bad debt repayment successful!');
-        console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
-        console.log(`   Repaid: ${result.repaidAmount}`);
-      } else {
-        console.log('\n❌ Bad debt repayment failed:');
-        console.log(`   Error: ${result.error}`);
-        process.exit(1);
-      }
-    }
-    // If liquidatable (or force mode), show profit estimation
-    else if (obligationInfo.debts.length > 0 && obligationInfo.collaterals.length > 0) {
-      const primaryDebt = obligationInfo.debts[0];
-      const primaryCollateral = obligationInfo.collaterals[0];
-
-      const profitEstimate = await liquidator.estimateLiquidationProfit(
-        obligationInfo,
-        primaryDebt.coinName,
-        primaryCollateral.coinName
-      );
-
-      console.log('\n📈 Liquidation Opportunity:');
-      console.log(`   Debt to repay: ${primaryDebt.coinName}`);
-      console.log(`   Collateral to receive: ${primaryCollateral.coinName}`);
-      console.log(`   Estimated profit: ~$${profitEstimate.estimatedProfitUsd.toFixed(2)}`);
-      console.log(`   Profitable: ${profitEstimate.profitable ? '✅ YES' : '⚠️ Marginal'}`);
-
-      if (mode === 'check') {
-        // Check mode - just report status
-        console.log('\n✓  Check complete - position IS liquidatable');
-        console.log('\n💡 To execute liquidation:');
-        console.log(`   pnpm sliq ${obligationId} --execute    # Check profit first`);
-        console.log(`   pnpm sliq ${obligationId} --force      # Bypass profit check`);
-      } else if (mode === 'execute' && !profitEstimate.profitable) {
-        // Execute mode but not profitable
-        console.log('\n⚠️  Liquidation not profitable. Use --force to bypass this check.');
-        process.exit(0);
-      } else {
-        // Execute or Force mode - perform liquidation
-        if (mode === 'force') {
-          console.log('\n⚡ Force mode: bypassing profit check...');
-        }
-        console.log('\n🚀 Executing liquidation...');
-
-        // Calculate repay amount (50% of debt for safety)
-        // Use raw amount (with decimals) for transaction
-        const repayAmountRaw = BigInt(Math.floor(primaryDebt.amount * 0.5));
-
-        const result = await liquidator.liquidate(
-          obligationId,
-          primaryDebt.coinName,
-          primaryCollateral.coinName,
-          repayAmountRaw
-        );
-
-        if (result.success) {
-          console.log('\n✅ Liquidation successful!');
-          console.log(`   Transaction: https://suivision.xyz/txblock/${result.txDigest}`);
-          console.log(`   Repaid: ${result.repaidAmount}`);
-        } else {
-          console.log('\n❌ Liquidation failed:');
-          console.log(`   Error: ${result.error}`);
-          process.exit(1);
-        }
-      }
-    } else {
-      console.log('\n⚠️  No debts or collaterals found');
-      process.exit(1);
+    switch (args[0]) {
+      case 'scan':
+        return await runScan(args.slice(1));
+      case 'watch':
+        return await runWatch(args.slice(1));
+      case 'batch':
+        return await runBatch(args.slice(1));
+      case 'rpc':
+        return await runRpc(args.slice(1));
+      case 'submit':
+        return await runSubmit(args.slice(1));
+      case 'wallet':
+        return await runWallet(args.slice(1));
+      case 'history':
+        return await runHistory(args.slice(1));
+      case 'notify':
+        return await runNotify(args.slice(1));
+      default:
+        return await runObligation(args);
     }
   } catch (error) {
-    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
-    process.exit(1);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('\n❌ Error:', message);
+    if (json) {
+      writeJson({ schemaVersion: JSON_SCHEMA_VERSION, command: args[0], status: 'error', exitCode: EXIT_CODES.error, error: message });
+    }
+    return EXIT_CODES.error;
   }
 }
 
@@ -223,6 +82,14 @@ Scallop Liquidator Lite
 
 Usage:
   pnpm sliq <obligation_id> [options]
+  pnpm sliq scan [scan options]
+  pnpm sliq watch [obligation_id...] [watch options]
+  pnpm sliq batch <file|-> [batch options]
+  pnpm sliq rpc [rpc options]
+  pnpm sliq submit <tx-file> <signature...>
+  pnpm sliq wallet [obligation_id...] [wallet options]
+  pnpm sliq history [history options]
+  pnpm sliq notify [--type <type>]
 
 Arguments:
   obligation_id    The Sui object ID of the obligation to check/liquidate
@@ -231,8 +98,106 @@ Options:
   --check, -c      Check obligation status only (default)
   --execute, -e    Execute liquidation if profitable
   --force, -f      Force execute, bypass profit check
+  --debt <coin>    Repay this debt coin instead of the best-ranked pair
+  --collateral <coin>  Seize this collateral coin instead of the best-ranked pair
+  --simulate       Dry-run the execute/force flow without signing anything
+  --export-unsigned <file>  Execute/force: write the simulated transaction for an external signer
+  --flashloan      Borrow the repay coin with a flash loan (no wallet inventory needed)
+  --swap <name>    Swap seized collateral via an aggregator: cetus, 7k
+  --swap-to <coin> Coin to swap the collateral into (default: debt = the repaid coin)
+  --slippage <bps> Slippage limit for swaps in basis points (default 50)
+  --min-profit <usd>      Net profit needed to execute (default 0.1)
+  --min-profit-bps <bps>  Net profit needed relative to the repaid value (default 0)
+  --rpc <url>      Use this fullnode (e.g. a local node to rehearse against)
+  --json           Print one JSON document to stdout (progress goes to stderr)
   --help, -h       Show this help message
 
+Scan Options:
+  --cursor <c>         Resume from a cursor printed by a previous scan
+  --limit <n>          Events per page (max 50, default 50)
+  --pages <n>          Stop after n pages (default: scan everything)
+  --concurrency <n>    Obligations queried in parallel (default 5)
+  --only-liquidatable  Only list liquidatable and bad-debt obligations
+  --rpc <url>          Use this fullnode (e.g. a local or recorded RPC stand-in)
+  --json               Print the scan result as one JSON document
+
+Batch Options (obligation IDs one per line, - reads stdin):
+  --check / --execute / --force / --simulate   Same as for a single obligation
+  --flashloan, --swap, --swap-to, --slippage   Same as for a single obligation
+  --min-profit <usd>, --min-profit-bps <bps>   Same as for a single obligation
+  --concurrency <n>    Obligations queried in parallel (default 5); transactions run one at a time
+  --bundle             Send the liquidations together in as few transactions as possible
+  --max-calls-per-tx <n>  Liquidations per bundled transaction (default 8)
+  --rpc <url>          Use this fullnode
+  --json               Print the results and summary as one JSON document
+
+Watch Options:
+  --file <path>        Read obligation IDs from a file (one per line)
+  --scan               Also watch obligations found by a market scan
+  --scan-pages <n>     Limit the startup scan to n pages
+  --scan-min-risk <%>  Only watch scanned obligations at or above this risk (default 90)
+  --interval <sec>     Seconds between polling rounds (default 15)
+  --execute, -e        Auto-execute liquidations (default: observe only)
+  --flashloan          Fund auto-executions with flash loans where a route exists
+  --swap <name>        Swap seized collateral via an aggregator: cetus, 7k
+  --swap-to <coin>     Coin to swap the collateral into (default: debt)
+  --slippage <bps>     Slippage limit for swaps in basis points (default 50)
+  --min-profit <usd>   Profit floor for auto-execution (default 0.1)
+  --min-profit-bps <bps>  Profit floor relative to the repaid value (default 0)
+  --max-backoff <sec>  Maximum retry delay after RPC errors (default 300)
+  --bundle             Send each round's liquidations together in as few transactions as possible
+  --max-calls-per-tx <n>  Liquidations per bundled transaction (default 8)
+  --concurrency <n>    Obligations queried in parallel (default 5)
+  --log <file>         Also append the JSON event log to a file
+  --metrics-port <port>  Serve Prometheus metrics on http://<host>:<port>/metrics (default: off)
+  --metrics-host <host>  Address the metrics server listens on (default 127.0.0.1)
+  --json               Keep stdout to JSON events only
+
+Wallet Options (balances, plus what liquidating the given obligations would take from them):
+  --file <path>        Read obligation IDs from a file (one per line)
+  --scan               Size the wallet against every liquidatable obligation in the market
+  --scan-pages <n>     Limit the scan to n pages
+  --address <0x...>    Read this wallet instead of the key's
+  --json               Print balances and requirements as one JSON document
+
+History Options (reads the journal of checks, attempts and results):
+  --since <when>       Only entries from this date (2026-01-31) or duration ago (30m, 24h, 7d)
+  --until <when>       Only entries before this date or duration ago
+  --coin <coin>        Only entries whose debt or collateral is this coin
+  --outcome <list>     succeeded, failed, simulated, exported, not_profitable, liquidatable, not_liquidatable
+  --kind <list>        check, liquidate, repay, submit (checks are only listed when asked for)
+  --limit <n>          How many of the latest entries to list (default 20); the summary covers all of them
+  --json               Print the summary and every matching entry as one JSON document
+
+Notify Options (sends a sample to every channel in the settings' "notifications", filters and limits aside):
+  --type <type>        liquidatable, bad_debt, liquidation_succeeded, liquidation_failed (default)
+  --json               Print the delivery result per channel as one JSON document
+
+RPC Options (all commands; \`sliq rpc\` probes the fullnodes and reports latency and failures):
+  --rpc <url>          Primary fullnode (default: public mainnet RPC)
+  --rpc-fallback <url,...>  Fullnodes to fail over to on errors and timeouts, in order
+  --rpc-rate-limit <n> Requests per second per fullnode (default 10)
+  --rpc-timeout <ms>   Timeout per attempt (default 15000)
+  --rpc-retries <n>    Retries on another fullnode, with backoff and jitter (default 3)
+  --probes <n>         sliq rpc: health probes per fullnode (default 3)
+
+Settings Options (all commands; see sliq.config.example.json):
+  --config <path>      Settings file (default: sliq.config.json, if present)
+  --profile <name>     Apply a named profile from the settings file
+  --max-repay <coin=amount,...>  Repay at most this many whole coins per debt coin
+  --allow-coins <coin,...>       Only liquidate pairs whose coins are all listed
+  --deny-coins <coin,...>        Never liquidate pairs involving these coins
+  --journal <path>     Journal of checks, attempts and results (default sliq-journal.jsonl)
+  --no-journal         Don't record anything
+  --no-notify          Send no notifications, whatever the settings configure
+  Flags override SLIQ_* env vars, which override the selected profile and the file.
+
+Key Options (all commands; without any key the liquidator is watch-only):
+  --keystore <path>    Sign with a key from a Sui CLI keystore (e.g. ~/.sui/sui_config/sui.keystore)
+  --address <0x...>    Keystore: the key to use (default: the CLI's active address)
+                       Watch-only: the wallet whose balances cap the repay amounts
+  --watch-only         Ignore any configured key; check, scan and --simulate only
+
 Examples:
   # Check obligation status (default mode)
   pnpm sliq 0x1234...abcd
@@ -244,13 +209,85 @@ Examples:
   # Force liquidation (bypass profit check)
   pnpm sliq 0x1234...abcd --force
 
+  # Rehearse a liquidation end-to-end without signing
+  pnpm sliq 0x1234...abcd --simulate
+  pnpm sliq 0x1234...abcd --force --simulate
+
+  # Liquidate without holding the debt coin (flash loan, repaid from the collateral)
+  pnpm sliq 0x1234...abcd --execute --flashloan --swap cetus
+
+  # Swap the seized collateral back into the repaid coin (1% max slippage)
+  pnpm sliq 0x1234...abcd --execute --swap 7k --slippage 100
+
+  # Liquidate a specific pair instead of the best-ranked one
+  pnpm sliq 0x1234...abcd --execute --debt usdc --collateral sui
+
+  # Scan the market, two pages at a time, then resume
+  pnpm sliq scan --pages 2
+  pnpm sliq scan --cursor <txDigest>:<eventSeq>
+
+  # Watch a list plus risky obligations from a scan, auto-executing above $1
+  pnpm sliq watch --file ids.txt --scan --execute --min-profit 1
+
+  # Check a list of obligations, then execute the profitable ones
+  pnpm sliq batch ids.txt
+  cat ids.txt | pnpm sliq batch - --execute --flashloan
+  pnpm sliq batch ids.txt --execute --bundle --max-calls-per-tx 5
+
+  # Use the "conservative" profile from sliq.config.json, never touching SCA
+  pnpm sliq watch --scan --execute --profile conservative --deny-coins sca
+
+  # Treasury multisig: build for its address, sign elsewhere, then broadcast
+  pnpm sliq 0x1234...abcd --execute --address 0x5678...ef01 --export-unsigned liq.json
+  pnpm sliq submit liq.json <multisig-signature>
+
+  # Analyst laptop: no key, rehearse against the bot's wallet balances
+  pnpm sliq 0x1234...abcd --simulate --address 0x5678...ef01
+
+  # Is the wallet stocked for everything liquidatable right now?
+  pnpm sliq wallet --scan --scan-pages 5
+
+  # Realised profit of the last week's USDC liquidations
+  pnpm sliq history --since 7d --coin usdc --outcome succeeded
+
+  # Run as a service, scraped by Prometheus on port 9464
+  pnpm sliq watch --scan --execute --metrics-port 9464 --metrics-host 0.0.0.0
+
+  # Check that the Telegram, Discord and webhook alerts arrive
+  pnpm sliq notify --type liquidation_succeeded
+
+  # Check fullnode latency, failures and checkpoint lag
+  pnpm sliq rpc --rpc https://my-node.example --rpc-fallback https://sui-rpc.publicnode.com
+
+  # Machine-readable report for scripts
+  pnpm sliq 0x1234...abcd --json | jq .status
+
+Exit Codes:
+  0  Liquidatable (check mode), simulated, exported or succeeded
+  1  Error (invalid input, RPC failure, ...)
+  2  Not liquidatable
+  3  Bad debt (use --force to repay)
+  4  Liquidation or repayment failed (wallet: the balances fall short)
+  5  Below the minimum profit, nothing sent
+
 Environment Variables:
-  PRIVATE_KEY      Your Sui wallet private key (required)
-  RPC_URL          Custom RPC URL (optional)
+  PRIVATE_KEY      Private key: hex, base64 or suiprivkey1... (one key source, or none for watch-only)
+  SUI_KEYSTORE     Sui CLI keystore to take the key from (like --keystore)
+  MNEMONIC         Recovery phrase; DERIVATION_PATH picks the account (default m/44'/784'/0'/0'/0')
+  WALLET_ADDRESS   Like --address
+  RPC_URL          Primary fullnode URL (optional)
+  RPC_FALLBACK_URLS  Comma-separated fullnodes to fail over to (optional)
+  SLIQ_CONFIG      Settings file (default: sliq.config.json)
+  SLIQ_PROFILE     Profile to apply from the settings file
+  SLIQ_JOURNAL     Journal file (default sliq-journal.jsonl)
+  SLIQ_NOTIFY      Notification channels as JSON, like "notifications" in the settings file
+  TELEGRAM_BOT_TOKEN  Bot token for Telegram channels without a botToken
+  SLIQ_METRICS_PORT, SLIQ_METRICS_HOST  Watch: like --metrics-port and --metrics-host
+  SLIQ_MIN_PROFIT_USD, SLIQ_MAX_REPAY, SLIQ_DENY_COINS, ...  Override a setting (see README)
 
 Setup:
   1. Copy .env.example to .env
-  2. Set your PRIVATE_KEY in .env
+  2. Set PRIVATE_KEY, SUI_KEYSTORE or MNEMONIC in .env (or none, to only check and simulate)
   3. Run the commands above
 
 ⚠️  WARNING: This is a lite version for educational purposes.
@@ -258,4 +295,9 @@ Setup:
 `);
 }
 
-main();
+// Single exit point: the SDK keeps timers alive, so exit explicitly once a command is done
+// and queued notifications have gone out
+main().then(async code => {
+  await flushNotifications();
+  process.exit(code);
+});
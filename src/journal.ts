@@ -0,0 +1,142 @@
+/**
+ * Liquidation journal - an append-only JSONL record of every check, attempt and result
+ *
+ * One JSON object per line, so the file can be tailed or fed to jq while the bot runs.
+ * A line cut short by a crash is skipped when reading.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { JournalEntry, JournalOutcome } from './types.js';
+
+export const DEFAULT_JOURNAL_PATH = 'sliq-journal.jsonl';
+
+export interface JournalFilter {
+  since?: Date;
+  until?: Date;
+  coin?: string;                // Debt or collateral coin name
+  outcomes?: JournalOutcome[];
+  kinds?: JournalEntry['kind'][];
+}
+
+export interface CoinSummary {
+  attempts: number;
+  succeeded: number;
+  repaid: string;               // Raw debt amount repaid by succeeded attempts
+  profitUsd: number;
+}
+
+export interface JournalSummary {
+  checks: number;
+  attempts: number;             // Liquidations, repayments and submissions, dry runs included
+  outcomes: Partial<Record<JournalOutcome, number>>;
+  successRate: number | null;   // succeeded / (succeeded + failed); null when neither happened
+  realisedProfitUsd: number;    // Succeeded liquidations, net of simulated gas
+  gasSpentMist: number;         // Transactions that reached the chain
+  coins: Record<string, CoinSummary>;  // Attempts by debt coin
+}
+
+export class Journal {
+  private path: string;
+  private warned = false;
+
+  constructor(path: string = DEFAULT_JOURNAL_PATH) {
+    this.path = path;
+  }
+
+  /**
+   * Append an entry; a journal that can't be written is reported once and never fails the caller
+   */
+  record(entry: Omit<JournalEntry, 'time'>): void {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n');
+    } catch (error) {
+      if (!this.warned) {
+        this.warned = true;
+        console.warn(`⚠️  Cannot write journal ${this.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Entries matching the filter, oldest first
+   */
+  read(filter: JournalFilter = {}): JournalEntry[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (matches(entry, filter)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+}
+
+function matches(entry: JournalEntry, filter: JournalFilter): boolean {
+  const time = Date.parse(entry.time);
+  if (filter.since && !(time >= filter.since.getTime())) return false;
+  if (filter.until && !(time < filter.until.getTime())) return false;
+  if (filter.kinds && !filter.kinds.includes(entry.kind)) return false;
+  if (filter.outcomes && !filter.outcomes.includes(entry.outcome)) return false;
+  if (filter.coin) {
+    const coin = filter.coin.toLowerCase();
+    if (entry.debtCoinName?.toLowerCase() !== coin && entry.collateralCoinName?.toLowerCase() !== coin) return false;
+  }
+  return true;
+}
+
+/**
+ * Outcome counts, success rate, realised profit and gas over a set of entries
+ */
+export function summarizeJournal(entries: JournalEntry[]): JournalSummary {
+  const summary: JournalSummary = {
+    checks: 0,
+    attempts: 0,
+    outcomes: {},
+    successRate: null,
+    realisedProfitUsd: 0,
+    gasSpentMist: 0,
+    coins: {},
+  };
+
+  for (const entry of entries) {
+    summary.outcomes[entry.outcome] = (summary.outcomes[entry.outcome] ?? 0) + 1;
+    if (entry.kind === 'check') {
+      summary.checks++;
+      continue;
+    }
+
+    summary.attempts++;
+    if (entry.txDigest) {
+      summary.gasSpentMist += entry.gasCostMist ?? 0;
+    }
+
+    const coinName = entry.debtCoinName ?? 'unknown';
+    const coin = summary.coins[coinName] ??= { attempts: 0, succeeded: 0, repaid: '0', profitUsd: 0 };
+    coin.attempts++;
+    if (entry.outcome === 'succeeded') {
+      coin.succeeded++;
+      coin.repaid = (BigInt(coin.repaid) + BigInt(entry.repayAmount ?? 0)).toString();
+      // Bad-debt repayments seize nothing, so only liquidations carry a profit
+      coin.profitUsd += entry.profitUsd ?? 0;
+      summary.realisedProfitUsd += entry.profitUsd ?? 0;
+    }
+  }
+
+  const succeeded = summary.outcomes.succeeded ?? 0;
+  const failed = summary.outcomes.failed ?? 0;
+  summary.successRate = succeeded + failed > 0 ? succeeded / (succeeded + failed) : null;
+  return summary;
+}
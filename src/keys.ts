@@ -0,0 +1,206 @@
+/**
+ * Key sources - where the signing key comes from, or watch-only mode without one
+ *
+ * At most one key source may be configured:
+ *   PRIVATE_KEY                     hex, base64 or bech32 (suiprivkey1...)
+ *   --keystore / SUI_KEYSTORE       a Sui CLI keystore; --address (or the CLI's active address) picks the key
+ *   MNEMONIC (+ DERIVATION_PATH)    defaults to m/44'/784'/0'/0'/0', the first account of Sui wallets
+ * With none (or --watch-only) nothing can be signed: check, scan and --simulate still work,
+ * reading balances from --address / WALLET_ADDRESS when one is given.
+ *
+ * The Scallop SDK signs with Ed25519 only, so keys of other schemes are rejected.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { decodeSuiPrivateKey, SIGNATURE_FLAG_TO_SCHEME, type SignatureFlag } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { fromBase64, fromHex, isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import type { KeySource, WalletAccess } from './types.js';
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/784'/0'/0'/0'";
+
+export interface KeyOptions {
+  keystorePath?: string;        // Sui CLI keystore (default: $SUI_KEYSTORE)
+  address?: string;             // Picks the keystore entry; watch-only: the wallet to read (default: $WALLET_ADDRESS)
+  watchOnly?: boolean;          // Ignore any configured key
+}
+
+export interface ResolvedKey {
+  keySource: KeySource;
+  wallet: WalletAccess;
+  secretKey?: string;           // Bech32, whatever form it was given in
+  walletAddress?: string;
+}
+
+/**
+ * Find the signing key, or fall back to watch-only; throws on unusable or conflicting sources
+ */
+export function resolveKey(options: KeyOptions, env: NodeJS.ProcessEnv): ResolvedKey {
+  const address = readAddress(options.address ?? env.WALLET_ADDRESS?.trim());
+
+  const privateKey = env.PRIVATE_KEY?.trim();
+  const keystorePath = options.keystorePath ?? env.SUI_KEYSTORE?.trim();
+  const mnemonic = env.MNEMONIC?.trim();
+
+  const configured = [
+    privateKey && 'PRIVATE_KEY',
+    keystorePath && (options.keystorePath ? '--keystore' : 'SUI_KEYSTORE'),
+    mnemonic && 'MNEMONIC',
+  ].filter(Boolean);
+
+  if (options.watchOnly || configured.length === 0) {
+    return { keySource: 'watch-only', wallet: address ? 'read' : 'none', walletAddress: address };
+  }
+  if (configured.length > 1) {
+    throw new Error(`Several key sources are set (${configured.join(', ')}); keep only one`);
+  }
+
+  let keypair: Ed25519Keypair;
+  let keySource: KeySource;
+  if (privateKey) {
+    keypair = parsePrivateKey(privateKey, 'PRIVATE_KEY');
+    keySource = 'private-key';
+  } else if (keystorePath) {
+    keypair = readKeystore(keystorePath, address);
+    keySource = 'keystore';
+  } else {
+    keypair = deriveFromMnemonic(mnemonic!, env.DERIVATION_PATH?.trim() || DEFAULT_DERIVATION_PATH);
+    keySource = 'mnemonic';
+  }
+
+  const keyAddress = keypair.getPublicKey().toSuiAddress();
+  if (address && address !== keyAddress) {
+    throw new Error(`The key from ${configured[0]} belongs to ${keyAddress}, not ${address}`);
+  }
+
+  return { keySource, wallet: 'sign', secretKey: keypair.getSecretKey(), walletAddress: keyAddress };
+}
+
+/**
+ * A private key as hex (optionally 0x-prefixed), base64 or bech32 `suiprivkey1...`
+ * Hex and base64 may be the bare 32-byte key, flag byte + key (keystore form) or the
+ * legacy 64-byte secret + public key.
+ */
+export function parsePrivateKey(text: string, label: string): Ed25519Keypair {
+  if (text.startsWith('suiprivkey')) {
+    let parsed: ReturnType<typeof decodeSuiPrivateKey>;
+    try {
+      parsed = decodeSuiPrivateKey(text);
+    } catch (error) {
+      throw new Error(`${label} is not a valid suiprivkey: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    assertEd25519(parsed.scheme, label);
+    return Ed25519Keypair.fromSecretKey(parsed.secretKey);
+  }
+
+  const bytes = decodeKeyBytes(text);
+  if (!bytes) {
+    throw new Error(`${label} must be a hex, base64 or suiprivkey1... private key`);
+  }
+  switch (bytes.length) {
+    case 32:
+      return Ed25519Keypair.fromSecretKey(bytes);
+    case 33:
+      assertEd25519(SIGNATURE_FLAG_TO_SCHEME[bytes[0] as SignatureFlag] ?? `flag ${bytes[0]}`, label);
+      return Ed25519Keypair.fromSecretKey(bytes.slice(1));
+    case 64:
+      return Ed25519Keypair.fromSecretKey(bytes.slice(0, 32));
+    default:
+      throw new Error(`${label} decodes to ${bytes.length} bytes; expected a 32-byte private key`);
+  }
+}
+
+/**
+ * Pick a key from a Sui CLI keystore (a JSON array of base64 `flag || key` entries)
+ * Without an address: the only entry, else the active address of the client.yaml next to it.
+ */
+function readKeystore(path: string, address: string | undefined): Ed25519Keypair {
+  if (!existsSync(path)) {
+    throw new Error(`Keystore not found: ${path}`);
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot parse keystore ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(entries) || !entries.every(entry => typeof entry === 'string')) {
+    throw new Error(`Keystore ${path} must be a JSON array of keys`);
+  }
+
+  // Keys of other schemes can't sign here, but they shouldn't stop us finding the Ed25519 one
+  const keys = entries.map((entry: string, index) => {
+    try {
+      return { keypair: parsePrivateKey(entry, `${path} entry ${index}`) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  const usable = keys.flatMap(key => key.keypair ? [key.keypair] : []);
+
+  if (!address && keys.length === 1 && usable.length === 1) {
+    return usable[0];
+  }
+  const wanted = address ?? readActiveAddress(path);
+  if (!wanted) {
+    const listed = usable.map(keypair => keypair.getPublicKey().toSuiAddress());
+    throw new Error(
+      `Keystore ${path} holds ${entries.length} keys; choose one with --address` +
+      (listed.length > 0 ? ` (Ed25519: ${listed.join(', ')})` : ' (none of them Ed25519)')
+    );
+  }
+
+  const match = usable.find(keypair => keypair.getPublicKey().toSuiAddress() === wanted);
+  if (!match) {
+    const unusable = keys.filter(key => key.error).map(key => key.error);
+    throw new Error(
+      `No Ed25519 key for ${wanted} in ${path}` +
+      (unusable.length > 0 ? `\n${unusable.map(reason => `  - ${reason}`).join('\n')}` : '')
+    );
+  }
+  return match;
+}
+
+// `active_address: "0x..."` in the Sui CLI's client.yaml
+function readActiveAddress(keystorePath: string): string | undefined {
+  const clientConfig = join(dirname(keystorePath), 'client.yaml');
+  if (!existsSync(clientConfig)) return undefined;
+  const match = /^active_address:\s*"?(0x[0-9a-fA-F]+)"?\s*$/m.exec(readFileSync(clientConfig, 'utf8'));
+  return match ? normalizeSuiAddress(match[1]) : undefined;
+}
+
+function deriveFromMnemonic(mnemonic: string, path: string): Ed25519Keypair {
+  try {
+    return Ed25519Keypair.deriveKeypair(mnemonic, path);
+  } catch (error) {
+    throw new Error(`Cannot derive a key from MNEMONIC at ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function readAddress(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const address = normalizeSuiAddress(text);
+  if (!/^(0x)?[0-9a-fA-F]+$/.test(text) || !isValidSuiAddress(address)) {
+    throw new Error(`Invalid wallet address: ${text}`);
+  }
+  return address;
+}
+
+function decodeKeyBytes(text: string): Uint8Array | undefined {
+  const hex = text.replace(/^0x/, '');
+  if (/^[0-9a-fA-F]+$/.test(hex) && hex.length % 2 === 0) {
+    return fromHex(hex);
+  }
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(text)) {
+    return fromBase64(text);
+  }
+  return undefined;
+}
+
+function assertEd25519(scheme: string, label: string): void {
+  if (scheme !== 'ED25519') {
+    throw new Error(`${label} is a ${scheme} key; the Scallop SDK only signs with Ed25519 keys`);
+  }
+}
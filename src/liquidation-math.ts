@@ -0,0 +1,126 @@
+/**
+ * Liquidation math mirroring Scallop's on-chain liquidation evaluator
+ *
+ * All values are in USD, all amounts in raw coin units (with decimals).
+ * Prices are USD per raw unit.
+ */
+
+import type { RepayLimit } from './types.js';
+
+export interface LiquidationInputs {
+  weightedDebtUsd: number;          // Σ debt value × borrow weight, across the whole obligation
+  liquidationCollateralUsd: number; // Σ collateral value × liquidation factor, across the whole obligation
+  debtAmount: number;
+  debtPrice: number;
+  borrowWeight: number;
+  collateralAmount: number;
+  collateralPrice: number;
+  liquidationFactor: number;
+  liquidationPenalty: number;
+  liquidationDiscount: number;
+  availableRepayAmount?: number;    // Cap from the liquidator's inventory
+}
+
+export interface LiquidationAmounts {
+  maxRepayAmount: number;   // What the protocol accepts before inventory is considered
+  repayAmount: number;      // What the liquidator actually pays
+  collateralSeized: number;
+  limitedBy: RepayLimit;
+  resultingRiskLevel: number;
+}
+
+/**
+ * Compute how much debt can be repaid and how much collateral is seized
+ *
+ * The protocol lets a liquidator seize just enough collateral to bring the obligation
+ * back to health. Seizing X USD of collateral costs the liquidator X × (1 - discount)
+ * and reduces the debt by X × (1 - penalty); the difference (penalty - discount, i.e.
+ * the liquidation reserve factor's share of the penalty) goes to the protocol.
+ * Healthy again means weighted debt <= liquidation-weighted collateral, so:
+ *
+ *   X = (weightedDebt - liquidationCollateral) / (borrowWeight × (1 - penalty) - liquidationFactor)
+ *
+ * X is then capped by the collateral held and the debt owed.
+ */
+export function computeLiquidationAmounts(inputs: LiquidationInputs): LiquidationAmounts {
+  const {
+    weightedDebtUsd,
+    liquidationCollateralUsd,
+    debtAmount,
+    debtPrice,
+    borrowWeight,
+    collateralAmount,
+    collateralPrice,
+    liquidationFactor,
+    liquidationPenalty,
+    liquidationDiscount,
+    availableRepayAmount,
+  } = inputs;
+
+  const currentRiskLevel = riskLevel(weightedDebtUsd, liquidationCollateralUsd);
+  if (weightedDebtUsd <= liquidationCollateralUsd || debtPrice <= 0 || collateralPrice <= 0) {
+    return { maxRepayAmount: 0, repayAmount: 0, collateralSeized: 0, limitedBy: 'health', resultingRiskLevel: currentRiskLevel };
+  }
+
+  // If seizing this collateral can't improve health, the whole position is fair game
+  const healingRate = borrowWeight * (1 - liquidationPenalty) - liquidationFactor;
+  let seizeAmount = healingRate > 0
+    ? (weightedDebtUsd - liquidationCollateralUsd) / healingRate / collateralPrice
+    : collateralAmount;
+  let limitedBy: RepayLimit = 'health';
+
+  if (seizeAmount > collateralAmount) {
+    seizeAmount = collateralAmount;
+    limitedBy = 'collateral';
+  }
+
+  let maxRepayAmount = (seizeAmount * collateralPrice * (1 - liquidationDiscount)) / debtPrice;
+  if (maxRepayAmount > debtAmount) {
+    maxRepayAmount = debtAmount;
+    limitedBy = 'debt';
+  }
+  maxRepayAmount = Math.floor(maxRepayAmount);
+
+  let repayAmount = maxRepayAmount;
+  if (availableRepayAmount !== undefined && availableRepayAmount < repayAmount) {
+    repayAmount = Math.floor(availableRepayAmount);
+    limitedBy = 'inventory';
+  }
+
+  const collateralSeized = Math.floor((repayAmount * debtPrice) / ((1 - liquidationDiscount) * collateralPrice));
+  const seizedUsd = collateralSeized * collateralPrice;
+  const debtReducedUsd = seizedUsd * (1 - liquidationPenalty);
+
+  return {
+    maxRepayAmount,
+    repayAmount,
+    collateralSeized,
+    limitedBy,
+    resultingRiskLevel: riskLevel(
+      weightedDebtUsd - debtReducedUsd * borrowWeight,
+      liquidationCollateralUsd - seizedUsd * liquidationFactor
+    ),
+  };
+}
+
+/**
+ * Debt including interest: the stored amount scaled by how far the pool's borrow index
+ * has grown since the obligation last updated it. Rounded up, so repaying it in full
+ * leaves no dust behind.
+ */
+export function accrueInterest(amount: number, storedBorrowIndex: number, currentBorrowIndex: number | undefined): number {
+  if (currentBorrowIndex === undefined || storedBorrowIndex <= 0 || currentBorrowIndex <= storedBorrowIndex) {
+    return amount;
+  }
+  return Math.ceil((amount * currentBorrowIndex) / storedBorrowIndex);
+}
+
+/**
+ * Risk level = weighted debt / liquidation-weighted collateral (>= 1.0 means liquidatable)
+ */
+export function riskLevel(weightedDebtUsd: number, liquidationCollateralUsd: number): number {
+  if (liquidationCollateralUsd <= 0) {
+    return weightedDebtUsd > 0 ? Infinity : 0;
+  }
+  return Math.max(weightedDebtUsd, 0) / liquidationCollateralUsd;
+}
@@ -2,83 +2,360 @@
  * Scallop Liquidator Core Logic
  */
 
-import { Scallop } from '@scallop-io/sui-scallop-sdk';
-import type { ObligationInfo, LiquidationResult, DebtInfo, CollateralInfo } from './types.js';
-
-// Known coin decimals for common assets
-const COIN_DECIMALS: Record<string, number> = {
-  'usdc': 6,
-  'wusdc': 6,
-  'usdt': 6,
-  'wusdt': 6,
-  'sui': 9,
-  'weth': 8,
-  'eth': 8,
-  'wbtc': 8,
-  'cetus': 9,
-  'apt': 8,
-  'sol': 8,
-  'wsol': 8,
-  'sca': 9,
+import { Scallop, type ScallopBuilder, type ScallopTxBlock, type MarketPools, type MarketCollaterals } from '@scallop-io/sui-scallop-sdk';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { toBase64 } from '@mysten/sui/utils';
+import { computeLiquidationAmounts, accrueInterest } from './liquidation-math.js';
+import {
+  estimateProfit,
+  estimateGasMist,
+  withSimulatedGas,
+  isProfitable,
+  DEFAULT_MIN_PROFIT_USD,
+  DEFAULT_MIN_PROFIT_BPS,
+} from './profit.js';
+import type { SwapProvider, TxCoin } from './swap.js';
+import { CoinRegistry, normalizeCoinType } from './coin-registry.js';
+import { LiquidationErrorCode, classifyError, formatMoveAbort } from './errors.js';
+import { transactionDigest, type UnsignedTxFile } from './unsigned-tx.js';
+import type { Journal } from './journal.js';
+import type { Metrics } from './metrics.js';
+import { notificationSeverity, type NotificationDispatcher } from './notify.js';
+import type {
+  ObligationInfo,
+  LiquidationResult,
+  LiquidationPlan,
+  LiquidationCandidate,
+  RepayCalculation,
+  PairSelection,
+  PlanOptions,
+  FlashLoanRoute,
+  SwapQuote,
+  ProfitBreakdown,
+  ProfitThresholds,
+  ExecutionOptions,
+  LiquidationRequest,
+  BundleOptions,
+  BundledLiquidationResult,
+  SimulationResult,
+  BalanceChange,
+  ExecutionEffects,
+  MoveAbortInfo,
+  DebtInfo,
+  CollateralInfo,
+  EventCursor,
+  ObligationEventPage,
+  WalletAccess,
+  UnsignedTransaction,
+  BalanceCheck,
+  WalletBalance,
+  WalletPreflight,
+  JournalOutcome,
+  CoinInfo,
+  NotificationType,
+} from './types.js';
+
+type ChainObjectResponse = {
+  data?: { content?: { dataType: string; fields?: Record<string, unknown> } };
 };
 
-// Known coin type addresses to human-readable names and SDK names
-const KNOWN_COIN_TYPES: Record<string, { name: string; symbol: string; sdkName: string }> = {
-  // Native USDC
-  'dba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC': {
-    name: 'USD Coin',
-    symbol: 'USDC',
-    sdkName: 'usdc',
-  },
-  // Wormhole USDC
-  '5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN': {
-    name: 'Wormhole USDC',
-    symbol: 'wUSDC',
-    sdkName: 'wusdc',
-  },
-  // Wormhole USDT
-  'c060006111016b8a020ad5b33834984a437aaa7d3c74c18e09a95d48aceab08c::coin::COIN': {
-    name: 'Wormhole USDT',
-    symbol: 'wUSDT',
-    sdkName: 'wusdt',
-  },
-  // Wormhole ETH
-  'af8cd5edc19c4512f4259f0bee101a40d41ebed738ade5874359610ef8eeced5::coin::COIN': {
-    name: 'Wormhole ETH',
-    symbol: 'wETH',
-    sdkName: 'weth',
-  },
-  // Native SUI
-  '0000000000000000000000000000000000000000000000000000000000000002::sui::SUI': {
-    name: 'Sui',
-    symbol: 'SUI',
-    sdkName: 'sui',
-  },
-  // CETUS
-  '06864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS': {
-    name: 'Cetus',
-    symbol: 'CETUS',
-    sdkName: 'cetus',
-  },
-  // SCA
-  '7016aae72cfc67f2fadf55769c0a7dd54291a583b63051a5ed71081cce836ac6::sca::SCA': {
-    name: 'Scallop',
-    symbol: 'SCA',
-    sdkName: 'sca',
-  },
-  // Native USDT (may not be supported by Scallop)
-  '375f70cf2ae4c00bf37117d0c85a2c71545e6ee05c4a5c7d282cd66a4504b068::usdt::USDT': {
-    name: 'Native USDT',
-    symbol: 'USDT',
-    sdkName: 'usdt', // Note: Scallop may only support wusdt (Wormhole USDT)
-  },
+// A Move Table as it appears in an obligation's fields (keys are kept in a separate vector)
+type ChainTable = {
+  fields: {
+    keys: { fields: { contents: Array<{ fields: { name: string } }> } };
+    table: { fields: { id: { id: string }; size: string } };
+  };
 };
 
+type DebtEntry = {
+  name: { fields: { name: string } };
+  value: { fields: { amount: string; borrow_index: string } };
+};
+
+type CollateralEntry = {
+  name: { fields: { name: string } };
+  value: { fields: { amount: string } };
+};
+
+// The parts of the Sui JSON-RPC client the liquidator reads from directly
+type ChainClient = {
+  getObject: (params: { id: string; options: { showContent: boolean } }) => Promise<ChainObjectResponse>;
+  multiGetObjects: (params: { ids: string[]; options: { showContent: boolean } }) => Promise<ChainObjectResponse[]>;
+  getDynamicFields: (params: { parentId: string; cursor?: string | null }) => Promise<{
+    data: Array<{ objectId: string; name: { value: unknown } }>;
+    nextCursor: string | null;
+    hasNextPage: boolean;
+  }>;
+  queryEvents: (params: {
+    query: { MoveEventType: string };
+    cursor?: EventCursor | null;
+    limit?: number;
+    order?: 'ascending' | 'descending';
+  }) => Promise<{
+    data: Array<{ id: EventCursor; parsedJson?: unknown }>;
+    nextCursor?: EventCursor | null;
+    hasNextPage: boolean;
+  }>;
+};
+
+// Sui RPC limit for multiGetObjects
+const MULTI_GET_OBJECTS_LIMIT = 50;
+
+const SUI_COIN_TYPE = normalizeCoinType('0x2::sui::SUI');
+
+type MarketRiskModel = {
+  pools: MarketPools;
+  collaterals: MarketCollaterals;
+};
+
+// Flash loan and swap chosen for one execution, plus why a requested one wasn't used
+type ExecutionRouting = {
+  flashLoan?: FlashLoanRoute;
+  fallbackReason?: string;
+  swap?: SwapQuote;
+  swapSkippedReason?: string;
+};
+
+// A coin argument the liquidate call accepts as repayment
+type RepayCoin = Parameters<ScallopTxBlock['liquidate']>[1];
+
+type LiquidationFailure = Required<Pick<LiquidationResult, 'error' | 'errorCode'>> & Pick<LiquidationResult, 'abort'>;
+
+// The protocol's record of one liquidation, from its liquidate event
+type LiquidateEvent = {
+  repaid: bigint;         // Debt coin taken: repay_on_behalf + repay_revenue
+  collateral: bigint;     // Collateral seized: liq_amount
+};
+
+// An executed transaction, read from the fullnode's response
+type ExecutedTransaction = {
+  success: boolean;
+  error?: string;
+  gasCostMist: number;
+  balanceChanges: BalanceChange[];  // Our wallet's
+  liquidations: Map<string, LiquidateEvent>;  // By obligation ID (lowercase)
+};
+
+// One liquidation or repayment within an executed transaction
+type ExecutedLeg = {
+  obligationId: string;
+  debtCoinName: string;
+  collateralCoinName?: string;  // Unset for a bad-debt repayment
+  repayAmount: bigint;
+  swapped?: boolean;      // The collateral was swapped, so it never reached the wallet as is
+};
+
+type ExecutionOutcome = Pick<LiquidationResult, 'repaidAmount' | 'collateralReceived' | 'refundAmount'> & { effects: ExecutionEffects };
+
+// protocol::liquidate::LiquidateEvent and its later versions (LiquidateEventV2, ...)
+const LIQUIDATE_EVENT_PATTERN = /::liquidate::LiquidateEvent(V\d+)?$/;
+
+export const DEFAULT_SLIPPAGE_BPS = 50;
+export const DEFAULT_MAX_CALLS_PER_TX = 8;
+
+export interface LiquidatorOptions {
+  swapProvider?: SwapProvider;  // Converts seized collateral (flash-loan repayment, swapTo)
+  slippageBps?: number;         // Slippage limit for swaps (default 50 = 0.5%)
+  minProfitUsd?: number;        // Net profit needed to count as profitable (default 0.1)
+  minProfitBps?: number;        // ... and relative to the repaid value (default 0)
+  coinRegistry?: CoinRegistry;  // Coin metadata source (default: disk-cached registry)
+  maxRepay?: Record<string, number>;  // Repay cap per debt coin, in whole coins
+  allowCoins?: string[];        // Only consider pairs whose debt and collateral are both listed
+  denyCoins?: string[];         // Never consider pairs involving these coins
+  wallet?: WalletAccess;        // 'read' / 'none' are watch-only: transactions are dry-run, never signed (default 'sign')
+  journal?: Journal;            // Records every check, attempt and result (default: nothing is recorded)
+  notifications?: NotificationDispatcher;  // Alerts on liquidatable / bad-debt obligations and executed attempts
+  metrics?: Metrics;            // Counts checks and attempts for /metrics (default: nothing is counted)
+}
+
+// The request side of a journaled attempt
+type AttemptRecord = {
+  obligationId: string;
+  debtCoinName: string;
+  collateralCoinName?: string;
+  repayAmount: bigint | string;
+  estimatedProfitUsd?: number;
+  bundled?: boolean;
+  simulateOnly?: boolean;       // Dry runs are journaled but not notified
+};
+
+/**
+ * Bad debt: the obligation still owes something but has no collateral left to seize
+ */
+export function isBadDebt(obligationInfo: ObligationInfo): boolean {
+  return obligationInfo.debts.length > 0 && obligationInfo.collaterals.length === 0;
+}
+
+function sameCoin(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Bridged and native versions of a coin share a family: wUSDC and USDC are both "usdc"
+ */
+function coinFamily(symbol: string): string {
+  return symbol.toLowerCase().replace(/^w(?=[a-z]{3,})/, '');
+}
+
+function formatUnits(raw: bigint | string, decimals: number): string {
+  return (Number(raw) / Math.pow(10, decimals)).toFixed(6);
+}
+
+function attemptOutcome(result: LiquidationResult): JournalOutcome {
+  if (result.success) {
+    return result.simulated ? 'simulated' : result.unsigned ? 'exported' : 'succeeded';
+  }
+  return result.errorCode === LiquidationErrorCode.NotProfitable ? 'not_profitable' : 'failed';
+}
+
+/**
+ * Status, gas, the owner's balance changes and the protocol's liquidate events of an executed transaction
+ */
+function readTransaction(response: SuiTransactionBlockResponse, owner: string): ExecutedTransaction {
+  const status = response.effects?.status;
+  const gasUsed = response.effects?.gasUsed;
+
+  const balanceChanges: BalanceChange[] = [];
+  for (const change of response.balanceChanges ?? []) {
+    const changeOwner = change.owner as { AddressOwner?: string };
+    if (changeOwner.AddressOwner === owner) {
+      balanceChanges.push({ coinType: change.coinType, amount: change.amount });
+    }
+  }
+
+  const liquidations = new Map<string, LiquidateEvent>();
+  for (const event of response.events ?? []) {
+    if (!LIQUIDATE_EVENT_PATTERN.test(event.type)) continue;
+    const fields = event.parsedJson as { obligation?: string; repay_on_behalf?: string; repay_revenue?: string; liq_amount?: string };
+    if (!fields?.obligation || fields.repay_on_behalf === undefined || fields.liq_amount === undefined) continue;
+    liquidations.set(fields.obligation.toLowerCase(), {
+      repaid: BigInt(fields.repay_on_behalf) + BigInt(fields.repay_revenue ?? 0),
+      collateral: BigInt(fields.liq_amount),
+    });
+  }
+
+  return {
+    success: status?.status === 'success',
+    error: status?.error,
+    gasCostMist: gasUsed
+      ? Number(gasUsed.computationCost) + Number(gasUsed.storageCost) - Number(gasUsed.storageRebate)
+      : 0,
+    balanceChanges,
+    liquidations,
+  };
+}
+
+/**
+ * The wallet's change in one coin, leaving out the gas when the coin is SUI
+ */
+function walletChange(transaction: ExecutedTransaction, coinType: string): bigint {
+  let change = transaction.balanceChanges
+    .filter(entry => normalizeCoinType(entry.coinType) === coinType)
+    .reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+  if (coinType === SUI_COIN_TYPE) {
+    change += BigInt(transaction.gasCostMist);
+  }
+  return change;
+}
+
+/**
+ * 'debt' means "swap back into the coin we repaid"
+ */
+function resolveSwapTarget(swapTo: string, debtCoinName: string): string {
+  return swapTo === 'debt' ? debtCoinName : swapTo;
+}
+
+/**
+ * USD price per raw unit from the market, for any pool or collateral coin
+ */
+function marketPrice(market: MarketRiskModel, coinName: string): number | undefined {
+  const asset = market.pools[coinName] ?? market.collaterals[coinName];
+  return asset && asset.coinPrice > 0 ? asset.coinPrice / Math.pow(10, asset.coinDecimal) : undefined;
+}
+
+/**
+ * Obligation totals computed the way the SDK's getObligationAccount does:
+ * debt value × borrow weight against collateral value × liquidation factor
+ */
+function valueObligation(
+  debts: DebtInfo[],
+  collaterals: CollateralInfo[],
+  market: MarketRiskModel
+): Pick<ObligationInfo, 'riskLevel' | 'totalBorrowedValueWithWeight' | 'totalRequiredCollateralValue' | 'isLiquidatable'> {
+  let weightedDebtUsd = 0;
+  for (const debt of debts) {
+    weightedDebtUsd += debt.valueUsd * (market.pools[debt.coinName]?.borrowWeight ?? 1);
+  }
+  let requiredCollateralUsd = 0;
+  for (const collateral of collaterals) {
+    requiredCollateralUsd += collateral.valueUsd * (market.collaterals[collateral.coinName]?.liquidationFactor ?? 0);
+  }
+
+  // Like the SDK: 100 when nothing backs the debt, and the ratio is capped at 1
+  const ratio = requiredCollateralUsd > 0
+    ? weightedDebtUsd / requiredCollateralUsd
+    : weightedDebtUsd > 0 ? 100 : 0;
+  const riskLevel = Math.min(ratio, 1);
+
+  return {
+    riskLevel,
+    totalBorrowedValueWithWeight: weightedDebtUsd,
+    totalRequiredCollateralValue: weightedDebtUsd > 0 ? requiredCollateralUsd : 0,
+    isLiquidatable: collaterals.length > 0 && riskLevel >= 1.0,
+  };
+}
+
+/**
+ * USD price per raw unit, preferring the market price over the position's own valuation
+ */
+function rawPrice(
+  marketAsset: { coinPrice: number; coinDecimal: number } | undefined,
+  position: { amount: number; valueUsd: number }
+): number {
+  if (marketAsset && marketAsset.coinPrice > 0) {
+    return marketAsset.coinPrice / Math.pow(10, marketAsset.coinDecimal);
+  }
+  return position.amount > 0 ? position.valueUsd / position.amount : 0;
+}
+
 export class ScallopLiquidator {
   private scallop: Scallop;
-
-  constructor(scallop: Scallop) {
+  private swapProvider?: SwapProvider;
+  private slippageBps: number;
+  private profitThresholds: ProfitThresholds;
+  private coins: CoinRegistry;
+  private maxRepay: Record<string, number>;
+  private allowCoins?: Set<string>;
+  private denyCoins: Set<string>;
+  private wallet: WalletAccess;
+  private journal?: Journal;
+  private notifications?: NotificationDispatcher;
+  private metrics?: Metrics;
+
+  constructor(scallop: Scallop, options: LiquidatorOptions = {}) {
     this.scallop = scallop;
+    this.coins = options.coinRegistry ?? new CoinRegistry(scallop);
+    this.swapProvider = options.swapProvider;
+    this.slippageBps = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    this.profitThresholds = {
+      minProfitUsd: options.minProfitUsd ?? DEFAULT_MIN_PROFIT_USD,
+      minProfitBps: options.minProfitBps ?? DEFAULT_MIN_PROFIT_BPS,
+    };
+    this.maxRepay = Object.fromEntries(Object.entries(options.maxRepay ?? {}).map(([coin, amount]) => [coin.toLowerCase(), amount]));
+    this.allowCoins = options.allowCoins && new Set(options.allowCoins.map(coin => coin.toLowerCase()));
+    this.denyCoins = new Set((options.denyCoins ?? []).map(coin => coin.toLowerCase()));
+    this.wallet = options.wallet ?? 'sign';
+    this.journal = options.journal;
+    this.notifications = options.notifications;
+    this.metrics = options.metrics;
+  }
+
+  /**
+   * Whether the allow/deny lists let us liquidate with this coin
+   */
+  isCoinAllowed(coinName: string): boolean {
+    const name = coinName.toLowerCase();
+    return !this.denyCoins.has(name) && (!this.allowCoins || this.allowCoins.has(name));
   }
 
   /**
@@ -88,21 +365,59 @@ export class ScallopLiquidator {
     const builder = await this.scallop.createScallopBuilder();
     // Access suiKit from builder's internal structure
     const suiKit = (builder as unknown as { suiKit: { suiInteractor: { currentClient: unknown } } }).suiKit;
-    return suiKit.suiInteractor.currentClient as {
-      getObject: (params: { id: string; options: { showContent: boolean } }) => Promise<{
-        data?: { content?: { dataType: string; fields?: Record<string, unknown> } }
-      }>;
-      getDynamicFields: (params: { parentId: string }) => Promise<{
-        data: Array<{ objectId: string; name: { value: unknown } }>
-      }>;
+    return suiKit.suiInteractor.currentClient as ChainClient;
+  }
+
+  /**
+   * Query a page of obligation-creation events from the Scallop protocol
+   * Events are typed by the original protocol package, so upgrades don't split the history
+   */
+  async queryObligationEvents(cursor: EventCursor | null, limit: number): Promise<ObligationEventPage> {
+    const query = await this.scallop.createScallopQuery();
+    const protocolObject = query.address.get('core.object');
+    const client = await this.getSuiClient();
+
+    const page = await client.queryEvents({
+      query: { MoveEventType: `${protocolObject}::open_obligation::ObligationCreatedEvent` },
+      cursor,
+      limit,
+      order: 'ascending',
+    });
+
+    const obligationIds: string[] = [];
+    for (const event of page.data) {
+      const obligation = (event.parsedJson as { obligation?: string } | undefined)?.obligation;
+      if (obligation) {
+        obligationIds.push(obligation);
+      }
+    }
+
+    return {
+      obligationIds,
+      nextCursor: page.nextCursor ?? null,
+      hasNextPage: page.hasNextPage,
     };
   }
 
   /**
    * Query obligation details by ID
-   * Falls back to direct chain query if SDK returns null
+   * Falls back to direct chain query if SDK returns null. Liquidatable and bad-debt
+   * obligations are reported to the notification channels, and every check is counted.
    */
   async queryObligation(obligationId: string): Promise<ObligationInfo> {
+    let obligationInfo: ObligationInfo;
+    try {
+      obligationInfo = await this.readObligation(obligationId);
+    } catch (error) {
+      this.metrics?.recordCheck('error');
+      throw error;
+    }
+    this.metrics?.recordCheck(isBadDebt(obligationInfo) ? 'bad_debt' : obligationInfo.isLiquidatable ? 'liquidatable' : 'healthy');
+    this.alertObligation(obligationInfo);
+    return obligationInfo;
+  }
+
+  private async readObligation(obligationId: string): Promise<ObligationInfo> {
     const query = await this.scallop.createScallopQuery();
 
     // Get obligation account details
@@ -115,32 +430,35 @@ export class ScallopLiquidator {
 
     // Fallback: query directly from chain
     console.log('⚠️  SDK returned null, querying chain directly...');
-    return this.queryObligationFromChain(obligationId);
+    const obligationInfo = await this.queryObligationFromChain(obligationId);
+    console.log(`   Read from chain in ${obligationInfo.obligationReads} obligation reads`);
+    return obligationInfo;
   }
 
   /**
    * Parse obligation from SDK response
+   * The SDK lists every pool, so positions with a zero amount are dropped.
    */
-  private parseObligationFromSDK(obligationAccount: {
+  private async parseObligationFromSDK(obligationAccount: {
     obligationId: string;
-    debts?: Record<string, { coinType: string; coinName: string; borrowedAmount: number; borrowedCoin: number; borrowedValue: number } | null>;
-    collaterals?: Record<string, { coinType: string; coinName: string; depositedAmount: number; depositedCoin: number; depositedValue: number } | null>;
+    debts?: Record<string, { coinType: string; coinName: string; borrowedAmount: number; borrowedCoin: number; borrowedValue: number } | null | undefined>;
+    collaterals?: Record<string, { coinType: string; coinName: string; depositedAmount: number; depositedCoin: number; depositedValue: number } | null | undefined>;
     totalRiskLevel: number;
     totalBorrowedValueWithWeight: number;
     totalRequiredCollateralValue: number;
-  }): ObligationInfo {
+  }): Promise<ObligationInfo> {
     // Extract debts from SDK response
     const debts: DebtInfo[] = [];
     if (obligationAccount.debts) {
       for (const [, debt] of Object.entries(obligationAccount.debts)) {
-        if (debt) {
+        if (debt && debt.borrowedAmount > 0) {
           // SDK provides coinName directly (e.g., "usdc", "sui")
-          const symbol = debt.coinName.toUpperCase();
+          const coin = await this.coins.resolve(debt.coinType);
           debts.push({
             coinType: debt.coinType,
             coinName: debt.coinName,
-            coinSymbol: symbol,
-            coinDisplayName: symbol,
+            coinSymbol: coin.symbol,
+            coinDisplayName: coin.displayName,
             amount: debt.borrowedAmount,
             amountCoin: debt.borrowedCoin,
             valueUsd: debt.borrowedValue,
@@ -153,13 +471,13 @@ export class ScallopLiquidator {
     const collaterals: CollateralInfo[] = [];
     if (obligationAccount.collaterals) {
       for (const [, collateral] of Object.entries(obligationAccount.collaterals)) {
-        if (collateral) {
-          const symbol = collateral.coinName.toUpperCase();
+        if (collateral && collateral.depositedAmount > 0) {
+          const coin = await this.coins.resolve(collateral.coinType);
           collaterals.push({
             coinType: collateral.coinType,
             coinName: collateral.coinName,
-            coinSymbol: symbol,
-            coinDisplayName: symbol,
+            coinSymbol: coin.symbol,
+            coinDisplayName: coin.displayName,
             amount: collateral.depositedAmount,
             amountCoin: collateral.depositedCoin,
             valueUsd: collateral.depositedValue,
@@ -183,6 +501,13 @@ export class ScallopLiquidator {
 
   /**
    * Query obligation directly from chain (fallback for bad debt)
+   * Positions are valued with oracle prices and the market's weights, so the totals
+   * and risk level match what the SDK would report.
+   *
+   * Debt and collateral tables are read concurrently, every page of their dynamic
+   * fields is followed, and the entries are fetched in multi-object batches.
+   * `obligationReads` counts the requests for the obligation and its tables; market,
+   * coin metadata and price lookups are shared between obligations and not included.
    */
   private async queryObligationFromChain(obligationId: string): Promise<ObligationInfo> {
     let client;
@@ -191,6 +516,8 @@ export class ScallopLiquidator {
     } catch (error) {
       throw new Error(`Failed to get Sui client: ${error instanceof Error ? error.message : String(error)}`);
     }
+    const market = await this.getMarketRiskModel();
+    const reads = { count: 0 };
 
     // Get obligation object
     let objResponse;
@@ -199,6 +526,7 @@ export class ScallopLiquidator {
         id: obligationId,
         options: { showContent: true }
       });
+      reads.count++;
     } catch (error) {
       throw new Error(`Failed to query obligation from chain: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -209,367 +537,1686 @@ export class ScallopLiquidator {
 
     const fields = (objResponse.data.content as { fields: Record<string, unknown> }).fields;
 
-    // Parse debts table
-    const debtsTable = fields.debts as {
-      fields: {
-        keys: { fields: { contents: Array<{ fields: { name: string } }> } };
-        table: { fields: { id: { id: string }; size: string } };
-      }
-    };
-
-    const debts: DebtInfo[] = [];
-    const debtKeys = debtsTable.fields.keys.fields.contents || [];
-    const debtTableId = debtsTable.fields.table.fields.id.id;
-
-    if (debtKeys.length > 0) {
-      // Query dynamic fields for debts
-      const debtFields = await client.getDynamicFields({ parentId: debtTableId });
-
-      for (const df of debtFields.data) {
-        const debtObj = await client.getObject({
-          id: df.objectId,
-          options: { showContent: true }
-        });
-
-        if (debtObj.data?.content && 'fields' in debtObj.data.content) {
-          const debtContent = debtObj.data.content.fields as {
-            name: { fields: { name: string } };
-            value: { fields: { amount: string; borrow_index: string } };
-          };
-
-          const coinTypeFull = debtContent.name.fields.name;
-          const coinInfo = this.extractCoinInfo(coinTypeFull);
-          const rawAmount = Number(debtContent.value.fields.amount);
-          const decimals = COIN_DECIMALS[coinInfo.sdkName.toLowerCase()] || COIN_DECIMALS[coinInfo.symbol.toLowerCase()] || 6;
-
-          debts.push({
-            coinType: '0x' + coinTypeFull,
-            coinName: coinInfo.sdkName,
-            coinSymbol: coinInfo.symbol,
-            coinDisplayName: coinInfo.name,
-            amount: rawAmount,
-            amountCoin: rawAmount / Math.pow(10, decimals),
-            valueUsd: 0, // Can't determine USD value without price oracle
-          });
-        }
-      }
-    }
+    const [debtEntries, collateralEntries] = await Promise.all([
+      this.readTableEntries<DebtEntry>(client, fields.debts as ChainTable, reads),
+      this.readTableEntries<CollateralEntry>(client, fields.collaterals as ChainTable, reads),
+    ]);
+
+    const debts: DebtInfo[] = await Promise.all(debtEntries.map(async (entry) => {
+      const coin = await this.coins.resolve(entry.name.fields.name);
+      const principalAmount = Number(entry.value.fields.amount);
+      const rawAmount = accrueInterest(
+        principalAmount,
+        Number(entry.value.fields.borrow_index),
+        market.pools[coin.coinName]?.borrowIndex
+      );
 
-    // Parse collaterals table
-    const collateralsTable = fields.collaterals as {
-      fields: {
-        keys: { fields: { contents: Array<{ fields: { name: string } }> } };
-        table: { fields: { id: { id: string }; size: string } };
-      }
-    };
+      return {
+        coinType: coin.coinType,
+        coinName: coin.coinName,
+        coinSymbol: coin.symbol,
+        coinDisplayName: coin.displayName,
+        amount: rawAmount,
+        amountCoin: rawAmount / Math.pow(10, coin.decimals),
+        valueUsd: 0, // Priced below, once every coin is known
+        principalAmount,
+      };
+    }));
 
-    const collaterals: CollateralInfo[] = [];
-    const collateralKeys = collateralsTable.fields.keys.fields.contents || [];
-    const collateralTableId = collateralsTable.fields.table.fields.id.id;
-
-    if (collateralKeys.length > 0) {
-      const collateralFields = await client.getDynamicFields({ parentId: collateralTableId });
-
-      for (const df of collateralFields.data) {
-        const collateralObj = await client.getObject({
-          id: df.objectId,
-          options: { showContent: true }
-        });
-
-        if (collateralObj.data?.content && 'fields' in collateralObj.data.content) {
-          const collContent = collateralObj.data.content.fields as {
-            name: { fields: { name: string } };
-            value: { fields: { amount: string } };
-          };
+    const collaterals: CollateralInfo[] = await Promise.all(collateralEntries.map(async (entry) => {
+      const coin = await this.coins.resolve(entry.name.fields.name);
+      const rawAmount = Number(entry.value.fields.amount);
 
-          const coinTypeFull = collContent.name.fields.name;
-          const coinInfo = this.extractCoinInfo(coinTypeFull);
-          const rawAmount = Number(collContent.value.fields.amount);
-          const decimals = COIN_DECIMALS[coinInfo.sdkName.toLowerCase()] || COIN_DECIMALS[coinInfo.symbol.toLowerCase()] || 9;
+      return {
+        coinType: coin.coinType,
+        coinName: coin.coinName,
+        coinSymbol: coin.symbol,
+        coinDisplayName: coin.displayName,
+        amount: rawAmount,
+        amountCoin: rawAmount / Math.pow(10, coin.decimals),
+        valueUsd: 0,
+      };
+    }));
 
-          collaterals.push({
-            coinType: '0x' + coinTypeFull,
-            coinName: coinInfo.sdkName,
-            coinSymbol: coinInfo.symbol,
-            coinDisplayName: coinInfo.name,
-            amount: rawAmount,
-            amountCoin: rawAmount / Math.pow(10, decimals),
-            valueUsd: 0,
-          });
-        }
-      }
+    const positions = [...debts, ...collaterals];
+    const prices = await this.getOraclePrices(positions.map(p => p.coinName), market);
+    for (const position of positions) {
+      position.valueUsd = position.amountCoin * (prices[position.coinName] ?? 0);
     }
 
-    // Calculate risk level: if no collateral but has debt, risk is infinite (use 999)
-    const hasDebt = debts.length > 0;
-    const hasCollateral = collaterals.length > 0;
-    const riskLevel = hasDebt && !hasCollateral ? 999 : (hasDebt ? 1.0 : 0);
-
     return {
       obligationId,
       debts,
       collaterals,
-      riskLevel,
-      totalBorrowedValueWithWeight: 0, // Unknown without oracle
-      totalRequiredCollateralValue: 0,
-      isLiquidatable: hasDebt && hasCollateral && riskLevel >= 1.0,
+      ...valueObligation(debts, collaterals, market),
+      obligationReads: reads.count,
     };
   }
 
   /**
-   * Extract coin info from full type path
-   * Returns { name: display name, symbol: ticker, sdkName: name for SDK calls }
+   * Read every entry of an obligation table: all pages of its dynamic fields,
+   * then the field objects in multi-object batches
    */
-  private extractCoinInfo(coinTypeFull: string): { name: string; symbol: string; sdkName: string } {
-    // Check if it's a known coin type
-    if (KNOWN_COIN_TYPES[coinTypeFull]) {
-      const known = KNOWN_COIN_TYPES[coinTypeFull];
-      return {
-        name: known.name,
-        symbol: known.symbol,
-        sdkName: known.sdkName,
-      };
+  private async readTableEntries<T>(
+    client: ChainClient,
+    table: ChainTable,
+    reads: { count: number }
+  ): Promise<T[]> {
+    if ((table.fields.keys.fields.contents || []).length === 0) {
+      return [];
     }
 
-    // Fallback: extract from type path
-    const parts = coinTypeFull.split('::');
-    if (parts.length >= 3) {
-      const moduleName = parts[1];
-      const structName = parts[2];
-      // If module name is generic like "coin", use struct name
-      if (moduleName.toLowerCase() === 'coin') {
-        return {
-          name: `Unknown (${structName})`,
-          symbol: structName,
-          sdkName: structName.toLowerCase(),
-        };
+    const fieldIds: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await client.getDynamicFields({ parentId: table.fields.table.fields.id.id, cursor });
+      reads.count++;
+      fieldIds.push(...page.data.map(field => field.objectId));
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    const batches: string[][] = [];
+    for (let i = 0; i < fieldIds.length; i += MULTI_GET_OBJECTS_LIMIT) {
+      batches.push(fieldIds.slice(i, i + MULTI_GET_OBJECTS_LIMIT));
+    }
+    const responses = await Promise.all(batches.map(async (ids) => {
+      const objects = await client.multiGetObjects({ ids, options: { showContent: true } });
+      reads.count++;
+      return objects;
+    }));
+
+    const entries: T[] = [];
+    for (const response of responses.flat()) {
+      if (response.data?.content && 'fields' in response.data.content) {
+        entries.push(response.data.content.fields as T);
       }
-      return {
-        name: structName,
-        symbol: structName,
-        sdkName: moduleName.toLowerCase(),
-      };
     }
-
-    return {
-      name: coinTypeFull,
-      symbol: coinTypeFull,
-      sdkName: coinTypeFull,
-    };
+    return entries;
   }
 
   /**
-   * Extract coin name from full type path (legacy, for SDK calls)
+   * USD price per whole coin: the market's oracle prices, then on-chain Pyth feeds
+   * for coins the market no longer lists
    */
-  private extractCoinName(coinTypeFull: string): string {
-    return this.extractCoinInfo(coinTypeFull).sdkName;
+  private async getOraclePrices(coinNames: string[], market: MarketRiskModel): Promise<Record<string, number>> {
+    const prices: Record<string, number> = {};
+    const missing: string[] = [];
+    for (const coinName of new Set(coinNames)) {
+      const asset = market.pools[coinName] ?? market.collaterals[coinName];
+      if (asset && asset.coinPrice > 0) {
+        prices[coinName] = asset.coinPrice;
+      } else {
+        missing.push(coinName);
+      }
+    }
+
+    if (missing.length > 0) {
+      const query = await this.scallop.createScallopQuery();
+      Object.assign(prices, await query.getPricesFromPyth(missing));
+      for (const coinName of missing) {
+        if (!(prices[coinName] > 0)) {
+          console.log(`⚠️  No oracle price for ${coinName}, valuing it at $0`);
+        }
+      }
+    }
+    return prices;
   }
 
   /**
    * Execute liquidation
+   * The transaction is always dry-run first and is not submitted if the simulation fails.
+   *
+   * With `flashLoan`, the repay coin is borrowed from Scallop, the seized collateral is
+   * swapped back into the debt coin to repay the loan plus fee, and only the surplus is
+   * sent to us - all in one transaction. If no route can repay the loan, the liquidation
+   * falls back to wallet funding and `fallbackReason` says why.
+   *
+   * With `swapTo`, the seized collateral is swapped into that coin in the same transaction
+   * (subject to the slippage limit); without a route the collateral is kept as is.
+   *
+   * With `profit`, the planned estimate is re-priced with the simulated gas cost and the
+   * transaction is not signed if it no longer meets the minimum profit.
    *
    * @param obligationId - The obligation to liquidate
    * @param debtCoinName - The debt coin to repay (e.g., 'usdc', 'sui')
    * @param collateralCoinName - The collateral coin to receive (e.g., 'sui', 'weth')
    * @param repayAmount - Amount to repay (in base units)
+   * @param options - `simulateOnly` stops after the dry run, `flashLoan` borrows the repay coin, `swapTo` unwinds the collateral, `profit` enables the profit re-check
    */
   async liquidate(
     obligationId: string,
     debtCoinName: string,
     collateralCoinName: string,
-    repayAmount: bigint
+    repayAmount: bigint,
+    options: ExecutionOptions = {}
+  ): Promise<LiquidationResult> {
+    const result = await this.attemptLiquidation(obligationId, debtCoinName, collateralCoinName, repayAmount, options);
+    await this.recordAttempt('liquidate', {
+      obligationId,
+      debtCoinName,
+      collateralCoinName,
+      repayAmount,
+      estimatedProfitUsd: options.profit?.netProfitUsd,
+      simulateOnly: options.simulateOnly,
+    }, result);
+    return result;
+  }
+
+  /**
+   * liquidate() without the journal entry, for callers that record the result themselves
+   */
+  private async attemptLiquidation(
+    obligationId: string,
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint,
+    options: ExecutionOptions
   ): Promise<LiquidationResult> {
+    let routing: ExecutionRouting = {};
     try {
+      routing = await this.resolveRouting(debtCoinName, collateralCoinName, repayAmount, options);
+
+      // Step 0: Make sure the wallet can pay before building anything
+      const preflight = await this.checkWallet(
+        routing.flashLoan ? [] : [{ debtCoinName, amount: repayAmount }],
+        estimateGasMist({ flashLoan: routing.flashLoan !== undefined, swap: routing.swap !== undefined })
+      );
+      if (preflight && !preflight.ok) {
+        return { success: false, ...this.describeRouting(routing), ...this.describePreflight(preflight), preflight };
+      }
+
       const builder = await this.scallop.createScallopBuilder();
       const tx = builder.createTxBlock();
 
       // Step 1: Update oracle prices (required before liquidation)
       await tx.updateAssetPricesQuick([debtCoinName, collateralCoinName]);
 
-      // Step 2: Get repay coins using builder's selectCoin
-      const { takeCoin: repayCoin } = await builder.selectCoin(
-        tx,
-        debtCoinName,
-        Number(repayAmount),
-        builder.walletAddress
-      );
-
-      // Step 3: Call liquidate function using SDK's built-in method
-      // Signature: liquidate(obligation, coin, debtCoinName, collateralCoinName)
-      const [remainingDebt, liquidatedCollateral] = tx.liquidate(
-        obligationId,
-        repayCoin,
-        debtCoinName,
-        collateralCoinName
-      );
-
-      // Transfer remaining debt and received collateral to sender
-      tx.transferObjects(
-        [remainingDebt, liquidatedCollateral],
-        builder.walletAddress
-      );
+      if (routing.flashLoan) {
+        await this.buildFlashLoanLiquidation(builder, tx, obligationId, debtCoinName, collateralCoinName, repayAmount, routing.flashLoan);
+      } else {
+        // Step 2: Get repay coins using builder's selectCoin
+        const { takeCoin: repayCoin } = await builder.selectCoin(
+          tx,
+          debtCoinName,
+          Number(repayAmount),
+          builder.walletAddress
+        );
+
+        // Step 3: Liquidate, optionally swap, and send everything back to our wallet
+        await this.buildWalletLiquidation(builder, tx, obligationId, repayCoin, debtCoinName, collateralCoinName, routing.swap);
+      }
 
-      // Execute transaction
-      const result = await builder.signAndSendTxBlock(tx);
+      // Step 4: Simulate before paying gas for a transaction that would abort
+      const simulation = await this.simulate(builder, tx);
+      if (!simulation.success) {
+        return {
+          success: false,
+          ...this.describeRouting(routing),
+          ...await this.describeLiquidationError(simulation.error ?? 'Simulation failed', debtCoinName, collateralCoinName, repayAmount),
+          simulation,
+        };
+      }
 
-      return {
-        success: true,
-        txDigest: result.digest,
-        repaidAmount: repayAmount.toString(),
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
+      const profit = options.profit && withSimulatedGas(options.profit, simulation.gasCostMist);
 
-      // Check for obligation locked error (770)
-      if (errorMsg.includes('770')) {
+      if (options.simulateOnly) {
         return {
-          success: false,
-          error: `Obligation is locked (Error 770). The obligation owner has staked this in the borrow incentive program. It cannot be liquidated until the owner unstakes it.`,
+          success: true,
+          simulated: true,
+          ...this.describeRouting(routing),
+          repaidAmount: repayAmount.toString(),
+          simulation,
+          profit,
         };
       }
 
-      // Check for zero amount error (1537)
-      if (errorMsg.includes('1537')) {
+      if (profit && !isProfitable(profit, this.profitThresholds)) {
         return {
           success: false,
-          error: `Liquidation amount must be greater than zero (Error 1537). The debt may be too small to liquidate.`,
+          ...this.describeRouting(routing),
+          ...this.describeNotProfitable(profit),
+          simulation,
+          profit,
         };
       }
 
-      // Check for insufficient balance
-      if (errorMsg.includes('No valid coins') || errorMsg.includes('Insufficient')) {
-        const decimals = COIN_DECIMALS[debtCoinName.toLowerCase()] || 9;
-        const humanAmount = Number(repayAmount) / Math.pow(10, decimals);
+      if (options.exportUnsigned) {
         return {
-          success: false,
-          error: `Insufficient ${debtCoinName.toUpperCase()} balance. Required: ${humanAmount.toFixed(6)} ${debtCoinName.toUpperCase()}. Please ensure you have enough ${debtCoinName.toUpperCase()} in your wallet.`,
+          success: true,
+          ...this.describeRouting(routing),
+          unsigned: await this.buildUnsigned(builder, tx),
+          repaidAmount: repayAmount.toString(),
+          simulation,
+          profit,
         };
       }
 
-      // Check for unsupported coin pool
-      if (errorMsg.includes('Cannot convert undefined') || errorMsg.includes('Cannot convert null')) {
+      if (this.wallet !== 'sign') {
+        return { success: false, ...this.describeRouting(routing), ...this.describeWatchOnly(), simulation, profit };
+      }
+
+      // Execute transaction, then read back what it actually did
+      const response = await builder.signAndSendTxBlock(tx);
+      const executed = readTransaction(response, builder.walletAddress);
+      const [outcome] = await this.describeExecution(executed, [{
+        obligationId,
+        debtCoinName,
+        collateralCoinName,
+        repayAmount,
+        swapped: (routing.flashLoan?.swap ?? routing.swap) != null,
+      }]);
+
+      if (!executed.success) {
         return {
           success: false,
-          error: `Coin "${debtCoinName}" or "${collateralCoinName}" is not supported by Scallop SDK. Common supported coins: usdc, wusdc, wusdt, sui, weth, cetus, sca.`,
+          ...this.describeRouting(routing),
+          txDigest: response.digest,
+          ...await this.describeLiquidationError(executed.error ?? 'Transaction failed', debtCoinName, collateralCoinName, repayAmount),
+          effects: outcome.effects,
+          simulation,
+          profit,
         };
       }
-
+      return {
+        success: true,
+        ...this.describeRouting(routing),
+        txDigest: response.digest,
+        ...outcome,
+        simulation,
+        profit,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         success: false,
-        error: errorMsg,
+        ...this.describeRouting(routing),
+        ...await this.describeLiquidationError(errorMsg, debtCoinName, collateralCoinName, repayAmount),
       };
     }
   }
 
   /**
-   * Repay bad debt (debt without collateral)
-   * This is experimental and may not work depending on protocol rules
+   * Liquidate several obligations in as few transactions as possible
+   *
+   * Each transaction bundles up to `maxCallsPerTx` liquidations behind a single oracle update,
+   * and wallet-funded repayments of the same coin are split from one coin selection. The
+   * simulated gas is shared evenly when re-checking each liquidation's `profit`: unprofitable
+   * ones are dropped and the rest rebuilt. A bundle that fails to build or simulate is sent
+   * one liquidation at a time instead, so one bad obligation doesn't hold up the others.
+   *
+   * @returns One result per request, in request order
    */
-  async repayBadDebt(
-    obligationId: string,
-    debtCoinName: string,
-    repayAmount: bigint
-  ): Promise<LiquidationResult> {
-    try {
-      const builder = await this.scallop.createScallopBuilder();
-      const tx = builder.createTxBlock();
-
-      // Set the sender address
-      tx.setSender(builder.walletAddress);
-
-      // Update oracle price for the debt coin
-      await tx.updateAssetPricesQuick([debtCoinName]);
+  async liquidateMany(requests: LiquidationRequest[], options: BundleOptions = {}): Promise<BundledLiquidationResult[]> {
+    const maxCalls = options.maxCallsPerTx ?? DEFAULT_MAX_CALLS_PER_TX;
+    if (!Number.isInteger(maxCalls) || maxCalls < 1) {
+      throw new Error(`Invalid maxCallsPerTx: ${maxCalls}. Expected a positive integer.`);
+    }
 
-      // Get repay coins using builder's selectCoin
-      const { takeCoin: repayCoin, leftCoin } = await builder.selectCoin(
-        tx,
-        debtCoinName,
-        Number(repayAmount),
-        builder.walletAddress
-      );
+    const results: BundledLiquidationResult[] = [];
+    for (let start = 0; start < requests.length; start += maxCalls) {
+      results.push(...await this.liquidateBundle(requests.slice(start, start + maxCalls), options));
+    }
 
-      // Use the regular repay method
-      // Signature: repay(obligation, coin, poolCoinName)
-      tx.repay(obligationId, repayCoin, debtCoinName);
+    for (const [i, result] of results.entries()) {
+      const request = requests[i];
+      await this.recordAttempt('liquidate', {
+        obligationId: request.obligationId,
+        debtCoinName: request.debtCoinName,
+        collateralCoinName: request.collateralCoinName,
+        repayAmount: request.repayAmount,
+        estimatedProfitUsd: request.profit?.netProfitUsd,
+        bundled: result.bundled,
+        simulateOnly: options.simulateOnly,
+      }, result);
+    }
+    return results;
+  }
 
-      // Transfer remaining coins back if any
-      if (leftCoin) {
-        tx.transferObjects([leftCoin], builder.walletAddress);
+  /**
+   * Liquidate up to `maxCallsPerTx` obligations in one transaction (see liquidateMany)
+   */
+  private async liquidateBundle(requests: LiquidationRequest[], options: BundleOptions): Promise<BundledLiquidationResult[]> {
+    const results: BundledLiquidationResult[] = new Array(requests.length);
+    let pending = requests.map((request, index) => ({ request, index }));
+
+    while (pending.length > 0) {
+      // A bundle of one is a regular liquidation
+      if (pending.length === 1) {
+        const [{ request, index }] = pending;
+        results[index] = { obligationId: request.obligationId, bundled: false, ...await this.liquidateOne(request, options) };
+        break;
       }
 
-      // Execute transaction
-      const result = await builder.signAndSendTxBlock(tx);
+      let bundle: Awaited<ReturnType<ScallopLiquidator['buildBundle']>>;
+      try {
+        bundle = await this.buildBundle(pending.map(({ request }) => request), options);
+        if (!bundle.simulation.success) {
+          throw new Error(bundle.simulation.error ?? 'Simulation failed');
+        }
+      } catch (error) {
+        console.log(`⚠️  Bundle of ${pending.length} liquidations failed (${error instanceof Error ? error.message : String(error)}), sending them one at a time`);
+        for (const { request, index } of pending) {
+          results[index] = { obligationId: request.obligationId, bundled: false, ...await this.liquidateOne(request, options) };
+        }
+        break;
+      }
 
-      return {
-        success: true,
-        txDigest: result.digest,
-        repaidAmount: repayAmount.toString(),
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
+      const { builder, tx, routings, simulation } = bundle;
+      const gasShare = Math.ceil(simulation.gasCostMist / pending.length);
+      const profits = pending.map(({ request }) => request.profit && withSimulatedGas(request.profit, gasShare));
+
+      // Drop liquidations that don't pay for their share of the gas, then rebuild without them
+      const unprofitable = options.simulateOnly
+        ? []
+        : pending.filter((_, i) => profits[i] && !isProfitable(profits[i]!, this.profitThresholds));
+      if (unprofitable.length > 0) {
+        for (const entry of unprofitable) {
+          const i = pending.indexOf(entry);
+          results[entry.index] = {
+            obligationId: entry.request.obligationId,
+            bundled: false,
+            success: false,
+            ...this.describeRouting(routings[i]),
+            ...this.describeNotProfitable(profits[i]!),
+            simulation,
+            profit: profits[i],
+          };
+        }
+        pending = pending.filter(entry => !unprofitable.includes(entry));
+        continue;
+      }
 
-      // Check for common errors
-      if (errorMsg.includes('No valid coins') || errorMsg.includes('Insufficient')) {
-        const decimals = COIN_DECIMALS[debtCoinName.toLowerCase()] || 9;
-        const humanAmount = Number(repayAmount) / Math.pow(10, decimals);
-        return {
-          success: false,
-          error: `Insufficient ${debtCoinName.toUpperCase()} balance. Required: ${humanAmount.toFixed(6)} ${debtCoinName.toUpperCase()}. Please ensure you have enough ${debtCoinName.toUpperCase()} in your wallet.`,
-        };
+      if (!options.simulateOnly && this.wallet !== 'sign') {
+        for (const [i, { request, index }] of pending.entries()) {
+          results[index] = {
+            obligationId: request.obligationId,
+            bundled: false,
+            success: false,
+            ...this.describeRouting(routings[i]),
+            ...this.describeWatchOnly(),
+            simulation,
+            profit: profits[i],
+          };
+        }
+        break;
       }
 
-      // Check for obligation locked error (770)
-      if (errorMsg.includes('770')) {
-        return {
-          success: false,
-          error: `Obligation is locked (Error 770). The obligation owner has staked this in the borrow incentive program. It cannot be repaid until the owner unstakes it.`,
-        };
+      let txDigest: string | undefined;
+      let outcomes: ExecutionOutcome[] | undefined;
+      if (!options.simulateOnly) {
+        try {
+          const response = await builder.signAndSendTxBlock(tx);
+          txDigest = response.digest;
+          const executed = readTransaction(response, builder.walletAddress);
+          outcomes = await this.describeExecution(executed, pending.map(({ request }, i) => ({
+            ...request,
+            swapped: (routings[i].flashLoan?.swap ?? routings[i].swap) != null,
+          })));
+          if (!executed.success) {
+            throw new Error(executed.error ?? 'Transaction failed');
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          for (const [i, { request, index }] of pending.entries()) {
+            results[index] = {
+              obligationId: request.obligationId,
+              bundled: true,
+              success: false,
+              ...this.describeRouting(routings[i]),
+              txDigest,
+              ...await this.describeLiquidationError(errorMsg, request.debtCoinName, request.collateralCoinName, request.repayAmount),
+              effects: outcomes?.[i].effects,
+              simulation,
+            };
+          }
+          break;
+        }
       }
 
-      // Check for unsupported coin pool
-      if (errorMsg.includes('Cannot convert undefined') || errorMsg.includes('Cannot convert null')) {
-        return {
-          success: false,
-          error: `Coin "${debtCoinName}" is not supported by Scallop SDK. This debt may be in a coin that Scallop no longer supports or was never a valid lending pool. Common supported coins: usdc, wusdc, wusdt, sui, weth, cetus, sca.`,
+      for (const [i, { request, index }] of pending.entries()) {
+        results[index] = {
+          obligationId: request.obligationId,
+          bundled: true,
+          success: true,
+          simulated: options.simulateOnly || undefined,
+          ...this.describeRouting(routings[i]),
+          txDigest,
+          repaidAmount: request.repayAmount.toString(),
+          ...outcomes?.[i],
+          simulation,
+          profit: profits[i],
         };
       }
-
-      return {
-        success: false,
-        error: errorMsg,
-      };
+      break;
     }
+
+    return results;
+  }
+
+  private liquidateOne(request: LiquidationRequest, options: BundleOptions): Promise<LiquidationResult> {
+    return this.attemptLiquidation(request.obligationId, request.debtCoinName, request.collateralCoinName, request.repayAmount, {
+      simulateOnly: options.simulateOnly,
+      flashLoan: request.flashLoan,
+      swapTo: options.swapTo,
+      profit: request.profit,
+    });
   }
 
   /**
-   * Estimate liquidation profit
+   * Build and dry-run one transaction liquidating every request
    */
-  async estimateLiquidationProfit(
-    obligationInfo: ObligationInfo,
+  private async buildBundle(requests: LiquidationRequest[], options: BundleOptions) {
+    const routings = await Promise.all(requests.map(request =>
+      this.resolveRouting(request.debtCoinName, request.collateralCoinName, request.repayAmount, {
+        flashLoan: request.flashLoan,
+        swapTo: options.swapTo,
+      })
+    ));
+
+    // Every wallet-funded repayment comes out of the same balances
+    const preflight = await this.checkWallet(
+      requests.filter((_, i) => !routings[i].flashLoan).map(request => ({ debtCoinName: request.debtCoinName, amount: request.repayAmount })),
+      routings.reduce((sum, routing) => sum + estimateGasMist({ flashLoan: routing.flashLoan !== undefined, swap: routing.swap !== undefined }), 0)
+    );
+    if (preflight && !preflight.ok) {
+      throw new Error(preflight.problems.join('; '));
+    }
+
+    const builder = await this.scallop.createScallopBuilder();
+    const tx = builder.createTxBlock();
+
+    // One oracle update for every coin involved
+    const coinNames = [...new Set(requests.flatMap(request => [request.debtCoinName, request.collateralCoinName]))];
+    await tx.updateAssetPricesQuick(coinNames);
+
+    // One coin selection per wallet-funded debt coin, split into the individual repayments
+    const repayCoins = new Map<LiquidationRequest, RepayCoin>();
+    const walletFunded = requests.filter((_, i) => !routings[i].flashLoan);
+    for (const debtCoinName of new Set(walletFunded.map(request => request.debtCoinName))) {
+      const group = walletFunded.filter(request => request.debtCoinName === debtCoinName);
+      const total = group.reduce((sum, request) => sum + request.repayAmount, 0n);
+      const { takeCoin } = await builder.selectCoin(tx, debtCoinName, Number(total), builder.walletAddress);
+
+      // The first repayment keeps what is left of the selected coin after splitting off the others
+      repayCoins.set(group[0], takeCoin);
+      if (group.length > 1) {
+        const parts = tx.splitCoins(takeCoin, group.slice(1).map(request => request.repayAmount));
+        group.slice(1).forEach((request, i) => repayCoins.set(request, parts[i]));
+      }
+    }
+
+    for (const [i, request] of requests.entries()) {
+      const routing = routings[i];
+      if (routing.flashLoan) {
+        await this.buildFlashLoanLiquidation(builder, tx, request.obligationId, request.debtCoinName, request.collateralCoinName, request.repayAmount, routing.flashLoan);
+      } else {
+        await this.buildWalletLiquidation(builder, tx, request.obligationId, repayCoins.get(request)!, request.debtCoinName, request.collateralCoinName, routing.swap);
+      }
+    }
+
+    const simulation = await this.simulate(builder, tx);
+    return { builder, tx, routings, simulation };
+  }
+
+  /**
+   * Work out the flash loan and/or collateral swap for a liquidation about to be executed
+   * Routes that can't be used are recorded as fallback/skip reasons rather than thrown.
+   */
+  private async resolveRouting(
     debtCoinName: string,
     collateralCoinName: string,
-    liquidationBonus: number = 0.05 // 5% default bonus
-  ): Promise<{ profitable: boolean; estimatedProfitUsd: number }> {
-    const debt = obligationInfo.debts.find(
-      d => d.coinName.toLowerCase() === debtCoinName.toLowerCase()
+    repayAmount: bigint,
+    options: ExecutionOptions
+  ): Promise<ExecutionRouting> {
+    const routing: ExecutionRouting = {};
+    if (!options.flashLoan && !options.swapTo) {
+      return routing;
+    }
+
+    const [market, feeRates] = await Promise.all([
+      this.getMarketRiskModel(),
+      options.flashLoan ? this.getFlashLoanFeeRates([debtCoinName]) : Promise.resolve({} as Record<string, number>),
+    ]);
+    const collateralSeized = this.expectCollateralSeized(market, debtCoinName, collateralCoinName, repayAmount);
+
+    if (options.flashLoan) {
+      try {
+        routing.flashLoan = await this.findFlashLoanRoute(
+          debtCoinName,
+          collateralCoinName,
+          repayAmount,
+          collateralSeized,
+          feeRates[debtCoinName]
+        );
+        return routing;
+      } catch (error) {
+        routing.fallbackReason = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const swapTo = options.swapTo && resolveSwapTarget(options.swapTo, debtCoinName);
+    if (swapTo && !sameCoin(swapTo, collateralCoinName)) {
+      try {
+        routing.swap = await this.quoteSwap(collateralCoinName, swapTo, collateralSeized);
+      } catch (error) {
+        routing.swapSkippedReason = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return routing;
+  }
+
+  private describeRouting(routing: ExecutionRouting): Partial<LiquidationResult> {
+    return {
+      funding: routing.flashLoan ? 'flashloan' : 'wallet',
+      fallbackReason: routing.fallbackReason,
+      swap: routing.flashLoan?.swap ?? routing.swap,
+      swapSkippedReason: routing.swapSkippedReason,
+    };
+  }
+
+  /**
+   * Append a wallet-funded liquidation to the transaction
+   *
+   * liquidate with `repayCoin` → optionally swap the collateral → transfer the remaining
+   * debt coin and the proceeds to our wallet
+   */
+  private async buildWalletLiquidation(
+    builder: ScallopBuilder,
+    tx: ScallopTxBlock,
+    obligationId: string,
+    repayCoin: RepayCoin,
+    debtCoinName: string,
+    collateralCoinName: string,
+    swap: SwapQuote | undefined
+  ): Promise<void> {
+    // Signature: liquidate(obligation, coin, debtCoinName, collateralCoinName)
+    const [remainingDebt, liquidatedCollateral] = tx.liquidate(
+      obligationId,
+      repayCoin,
+      debtCoinName,
+      collateralCoinName
     );
-    const collateral = obligationInfo.collaterals.find(
-      c => c.coinName.toLowerCase() === collateralCoinName.toLowerCase()
+
+    const proceeds = swap
+      ? await this.appendSwap(tx, swap, liquidatedCollateral)
+      : liquidatedCollateral;
+    tx.transferObjects(
+      [remainingDebt, proceeds],
+      builder.walletAddress
     );
+  }
+
+  /**
+   * Append a flash-loan-funded liquidation to the transaction
+   *
+   * borrow repay coin → liquidate → swap collateral into the debt coin →
+   * repay loan + fee → transfer the surplus to our wallet
+   */
+  private async buildFlashLoanLiquidation(
+    builder: ScallopBuilder,
+    tx: ScallopTxBlock,
+    obligationId: string,
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint,
+    flashLoan: FlashLoanRoute
+  ): Promise<void> {
+    const [loanCoin, loan] = tx.borrowFlashLoan(Number(repayAmount), debtCoinName);
+
+    const [remainingDebt, liquidatedCollateral] = tx.liquidate(
+      obligationId,
+      loanCoin,
+      debtCoinName,
+      collateralCoinName
+    );
+
+    const proceeds = flashLoan.swap
+      ? await this.appendSwap(tx, flashLoan.swap, liquidatedCollateral)
+      : liquidatedCollateral;
+    tx.mergeCoins(proceeds, [remainingDebt]);
 
-    if (!debt || !collateral) {
-      return { profitable: false, estimatedProfitUsd: 0 };
+    const [repayment] = tx.splitCoins(proceeds, [repayAmount + flashLoan.fee]);
+    tx.repayFlashLoan(repayment, loan, debtCoinName);
+
+    tx.transferObjects([proceeds], builder.walletAddress);
+  }
+
+  /**
+   * Append a quoted swap and abort the transaction if it yields less than `minAmountOut`
+   */
+  private async appendSwap(tx: ScallopTxBlock, quote: SwapQuote, coinIn: TxCoin): Promise<TxCoin> {
+    const coinOut = await this.swapProvider!.swap(tx, quote, coinIn);
+
+    // Splitting more than the coin holds aborts, so this doubles as an on-chain minimum-out check
+    const [floor] = tx.splitCoins(coinOut, [quote.minAmountOut]);
+    tx.mergeCoins(coinOut, [floor]);
+    return coinOut;
+  }
+
+  /**
+   * Quote swapping seized collateral into another coin
+   * Throws with the reason when there is no swap provider or no route
+   */
+  private async quoteSwap(fromCoinName: string, toCoinName: string, amountIn: bigint): Promise<SwapQuote> {
+    if (!this.swapProvider) {
+      throw new Error(`No swap route from ${fromCoinName} to ${toCoinName}: no swap provider configured`);
+    }
+
+    const utils = await this.scallop.createScallopUtils();
+    const quote = await this.swapProvider.quote({
+      fromCoinName,
+      fromCoinType: utils.parseCoinType(fromCoinName),
+      toCoinName,
+      toCoinType: utils.parseCoinType(toCoinName),
+      amountIn,
+    }, this.slippageBps);
+    if (!quote) {
+      throw new Error(`No swap route from ${fromCoinName} to ${toCoinName} via ${this.swapProvider.name}`);
     }
+    return quote;
+  }
+
+  /**
+   * Raw collateral the protocol hands over for `repayAmount`, at current market prices
+   */
+  private expectCollateralSeized(
+    market: MarketRiskModel,
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint
+  ): bigint {
+    const debtPool = market.pools[debtCoinName];
+    const collateralPool = market.collaterals[collateralCoinName];
+    if (!debtPool || !collateralPool) {
+      throw new Error(`No Scallop risk model for ${debtCoinName} → ${collateralCoinName}`);
+    }
+
+    const debtPrice = debtPool.coinPrice / Math.pow(10, debtPool.coinDecimal);
+    const collateralPrice = collateralPool.coinPrice / Math.pow(10, collateralPool.coinDecimal);
+    return BigInt(Math.floor(
+      (Number(repayAmount) * debtPrice) / ((1 - collateralPool.liquidationDiscount) * collateralPrice)
+    ));
+  }
 
-    // Estimated profit = collateral received * bonus - gas costs
-    // This is a simplified calculation
-    // Usually max 50% of debt can be liquidated at once
-    const maxLiquidatableUsd = Math.min(debt.valueUsd * 0.5, collateral.valueUsd);
-    const estimatedProfitUsd = maxLiquidatableUsd * liquidationBonus;
+  /**
+   * Check that the seized collateral can repay a flash loan of `repayAmount` plus fee
+   * Throws with the reason when it can't (no flash loan pool, no swap route, output too small)
+   */
+  private async findFlashLoanRoute(
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint,
+    collateralSeized: bigint,
+    feeRate: number | undefined
+  ): Promise<FlashLoanRoute> {
+    if (feeRate === undefined) {
+      throw new Error(`Scallop has no flash loan pool for ${debtCoinName}`);
+    }
+
+    const fee = BigInt(Math.ceil(Number(repayAmount) * feeRate));
+    const owed = repayAmount + fee;
+
+    // Same coin: the seized collateral repays the loan directly
+    if (sameCoin(debtCoinName, collateralCoinName)) {
+      if (collateralSeized < owed) {
+        throw new Error(`Seized ${collateralCoinName} (${collateralSeized}) does not cover the flash loan plus fee (${owed})`);
+      }
+      return { feeRate, fee, swap: null };
+    }
+
+    const quote = await this.quoteSwap(collateralCoinName, debtCoinName, collateralSeized);
+    if (quote.minAmountOut < owed) {
+      throw new Error(`Swapping the seized ${collateralCoinName} returns at least ${quote.minAmountOut} ${debtCoinName}, less than the flash loan plus fee (${owed})`);
+    }
+
+    return { feeRate, fee, swap: quote };
+  }
+
+  /**
+   * Repay bad debt (debt without collateral)
+   * This is experimental and may not work depending on protocol rules.
+   * Like liquidate(), the transaction is dry-run before it is signed.
+   */
+  async repayBadDebt(
+    obligationId: string,
+    debtCoinName: string,
+    repayAmount: bigint,
+    options: ExecutionOptions = {}
+  ): Promise<LiquidationResult> {
+    const result = await this.attemptRepayment(obligationId, debtCoinName, repayAmount, options);
+    await this.recordAttempt('repay', { obligationId, debtCoinName, repayAmount, simulateOnly: options.simulateOnly }, result);
+    return result;
+  }
+
+  private async attemptRepayment(
+    obligationId: string,
+    debtCoinName: string,
+    repayAmount: bigint,
+    options: ExecutionOptions
+  ): Promise<LiquidationResult> {
+    try {
+      const preflight = await this.checkWallet([{ debtCoinName, amount: repayAmount }], estimateGasMist({ flashLoan: false, swap: false }));
+      if (preflight && !preflight.ok) {
+        return { success: false, ...this.describePreflight(preflight), preflight };
+      }
+
+      const builder = await this.scallop.createScallopBuilder();
+      const tx = builder.createTxBlock();
+
+      // Set the sender address
+      tx.setSender(builder.walletAddress);
+
+      // Update oracle price for the debt coin
+      await tx.updateAssetPricesQuick([debtCoinName]);
+
+      // Get repay coins using builder's selectCoin
+      const { takeCoin: repayCoin, leftCoin } = await builder.selectCoin(
+        tx,
+        debtCoinName,
+        Number(repayAmount),
+        builder.walletAddress
+      );
+
+      // Use the regular repay method
+      // Signature: repay(obligation, coin, poolCoinName)
+      tx.repay(obligationId, repayCoin, debtCoinName);
+
+      // Transfer remaining coins back if any
+      if (leftCoin) {
+        tx.transferObjects([leftCoin], builder.walletAddress);
+      }
+
+      const simulation = await this.simulate(builder, tx);
+      if (!simulation.success) {
+        return {
+          success: false,
+          ...await this.describeRepayError(simulation.error ?? 'Simulation failed', debtCoinName, repayAmount),
+          simulation,
+        };
+      }
+
+      if (options.simulateOnly) {
+        return {
+          success: true,
+          simulated: true,
+          repaidAmount: repayAmount.toString(),
+          simulation,
+        };
+      }
+
+      if (options.exportUnsigned) {
+        return {
+          success: true,
+          unsigned: await this.buildUnsigned(builder, tx),
+          repaidAmount: repayAmount.toString(),
+          simulation,
+        };
+      }
+
+      if (this.wallet !== 'sign') {
+        return { success: false, ...this.describeWatchOnly(), simulation };
+      }
+
+      // Execute transaction, then read back what it actually did
+      const response = await builder.signAndSendTxBlock(tx);
+      const executed = readTransaction(response, builder.walletAddress);
+      const [outcome] = await this.describeExecution(executed, [{ obligationId, debtCoinName, repayAmount }]);
+
+      if (!executed.success) {
+        return {
+          success: false,
+          txDigest: response.digest,
+          ...await this.describeRepayError(executed.error ?? 'Transaction failed', debtCoinName, repayAmount),
+          effects: outcome.effects,
+          simulation,
+        };
+      }
+      return {
+        success: true,
+        txDigest: response.digest,
+        ...outcome,
+        simulation,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        ...await this.describeRepayError(errorMsg, debtCoinName, repayAmount),
+      };
+    }
+  }
+
+  /**
+   * Broadcast a transaction exported with `exportUnsigned` and signed elsewhere
+   * (e.g. a multisig or hardware wallet); failures are described like liquidate()'s
+   */
+  async submitSigned(file: UnsignedTxFile, signatures: string[]): Promise<LiquidationResult> {
+    const result = await this.broadcastSigned(file, signatures);
+    // The exported dry run stands in for whatever the broadcast couldn't read back
+    await this.recordAttempt('submit', {
+      obligationId: file.obligationId,
+      debtCoinName: file.debtCoinName,
+      collateralCoinName: file.collateralCoinName,
+      repayAmount: file.repayAmount,
+      estimatedProfitUsd: file.profit?.netProfitUsd,
+    }, { ...result, simulation: file.simulation, profit: file.profit });
+    return result;
+  }
+
+  private async broadcastSigned(file: UnsignedTxFile, signatures: string[]): Promise<LiquidationResult> {
+    const repayAmount = BigInt(file.repayAmount);
+    const describeError = (errorMsg: string) => file.kind === 'repay'
+      ? this.describeRepayError(errorMsg, file.debtCoinName, repayAmount)
+      : this.describeLiquidationError(errorMsg, file.debtCoinName, file.collateralCoinName ?? '', repayAmount);
+
+    try {
+      const builder = await this.scallop.createScallopBuilder();
+      const response = await builder.suiKit.client.executeTransactionBlock({
+        transactionBlock: file.txBytes,
+        signature: signatures,
+        options: { showEffects: true, showEvents: true, showBalanceChanges: true },
+      });
+
+      const executed = readTransaction(response, file.sender);
+      const [outcome] = await this.describeExecution(executed, [{
+        obligationId: file.obligationId,
+        debtCoinName: file.debtCoinName,
+        collateralCoinName: file.collateralCoinName,
+        repayAmount,
+      }]);
+      if (!executed.success) {
+        return {
+          success: false,
+          txDigest: response.digest,
+          ...await describeError(executed.error ?? 'Transaction failed'),
+          effects: outcome.effects,
+        };
+      }
+      return { success: true, txDigest: response.digest, ...outcome };
+    } catch (error) {
+      return { success: false, ...await describeError(error instanceof Error ? error.message : String(error)) };
+    }
+  }
+
+  /**
+   * Check the wallet holds what a transaction will draw from it: each repay coin by its exact
+   * type (so native USDC doesn't pass for wUSDC) and SUI for the estimated gas.
+   * SUI repayments are split from the gas coin, so they are checked together with the gas.
+   */
+  async preflight(repayments: Array<{ debtCoinName: string; amount: bigint }>, gasMist: number): Promise<WalletPreflight> {
+    const builder = await this.scallop.createScallopBuilder();
+    const client = builder.suiKit.client;
+    const owner = builder.walletAddress;
+
+    const required = new Map<string, bigint>();
+    for (const { debtCoinName, amount } of repayments) {
+      const { coinType } = await this.coins.resolveByName(debtCoinName);
+      required.set(coinType, (required.get(coinType) ?? 0n) + amount);
+    }
+    const repaysSui = required.get(SUI_COIN_TYPE) ?? 0n;
+    required.delete(SUI_COIN_TYPE);
+    required.set(SUI_COIN_TYPE, repaysSui + BigInt(gasMist));
+
+    const checks: BalanceCheck[] = await Promise.all([...required].map(async ([coinType, amount]) => {
+      const [coin, { totalBalance }] = await Promise.all([
+        this.coins.resolve(coinType),
+        client.getBalance({ owner, coinType }),
+      ]);
+      return {
+        coinType,
+        symbol: coin.symbol,
+        decimals: coin.decimals,
+        required: amount.toString(),
+        balance: totalBalance,
+        sufficient: BigInt(totalBalance) >= amount,
+      };
+    }));
+
+    const short = checks.filter(check => !check.sufficient);
+    // Only worth listing the rest of the wallet when a repay coin is short
+    const held = short.some(check => check.coinType !== SUI_COIN_TYPE)
+      ? await this.getHeldCoins(owner)
+      : [];
+
+    const problems = short.map(check => {
+      const gas = check.coinType === SUI_COIN_TYPE
+        ? repaysSui > 0n ? ` including ~${formatUnits(BigInt(gasMist), 9)} for gas` : ' for gas (estimate)'
+        : '';
+      const lookalikes = held.filter(coin => coin.coinType !== check.coinType && coinFamily(coin.symbol) === coinFamily(check.symbol));
+      const label = check.coinType === SUI_COIN_TYPE ? check.symbol : `${check.symbol} (${check.coinType})`;
+      return `Insufficient ${label}: need ${formatUnits(check.required, check.decimals)}${gas}, ` +
+        `the wallet holds ${formatUnits(check.balance, check.decimals)}` +
+        lookalikes.map(coin =>
+          `; its ${formatUnits(coin.balance, coin.decimals)} ${coin.symbol} (${coin.coinType}) is a different coin and can't be used`
+        ).join('');
+    });
+
+    return { ok: short.length === 0, checks, gasMist, problems };
+  }
+
+  /**
+   * Every coin the wallet holds, with metadata where it resolves
+   */
+  async getHeldCoins(owner?: string): Promise<WalletBalance[]> {
+    const builder = await this.scallop.createScallopBuilder();
+    const balances = await builder.suiKit.client.getAllBalances({ owner: owner ?? builder.walletAddress });
+    return Promise.all(balances.map(async ({ coinType, totalBalance }: { coinType: string; totalBalance: string }) => {
+      const normalized = normalizeCoinType(coinType);
+      // Coins without metadata (spam airdrops, mostly) are listed by their type in raw units
+      const coin = await this.coins.resolve(normalized).catch(() => undefined);
+      return {
+        coinType: normalized,
+        symbol: coin?.symbol ?? normalized.split('::').pop()!,
+        decimals: coin?.decimals ?? 0,
+        balance: totalBalance,
+        coinName: coin?.listed ? coin.coinName : undefined,
+      };
+    }));
+  }
 
+  /**
+   * Preflight for the execution paths; skipped when there is no wallet to read
+   */
+  private async checkWallet(
+    repayments: Array<{ debtCoinName: string; amount: bigint }>,
+    gasMist: number
+  ): Promise<WalletPreflight | undefined> {
+    return this.wallet === 'none' ? undefined : this.preflight(repayments, gasMist);
+  }
+
+  private async recordAttempt(kind: 'liquidate' | 'repay' | 'submit', attempt: AttemptRecord, result: LiquidationResult): Promise<void> {
+    const outcome = attemptOutcome(result);
+    this.metrics?.recordAttempt(kind, outcome, result, attempt.estimatedProfitUsd);
+    this.journal?.record({
+      kind,
+      outcome,
+      obligationId: attempt.obligationId,
+      debtCoinName: attempt.debtCoinName,
+      collateralCoinName: attempt.collateralCoinName,
+      repayAmount: attempt.repayAmount.toString(),
+      funding: result.funding,
+      estimatedProfitUsd: attempt.estimatedProfitUsd,
+      bundled: attempt.bundled,
+      txDigest: result.txDigest,
+      errorCode: result.errorCode,
+      error: result.error,
+      abort: result.abort,
+      collateralReceived: result.collateralReceived,
+      refundAmount: result.refundAmount,
+      // A bundled liquidation's profit carries its share of the bundle's gas
+      gasCostMist: result.effects?.gasCostMist
+        ?? (result.profit?.gasSource === 'simulation' ? result.profit.gasCostMist : result.simulation?.gasCostMist),
+      // Realised once executed, unless a coin in the balance changes has no price
+      profitUsd: result.effects?.realisedProfitUsd ?? result.profit?.netProfitUsd,
+      balanceChanges: result.effects?.balanceChanges ?? result.simulation?.balanceChanges,
+    });
+
+    // Dry runs, exports and unprofitable skips never reached the chain, so nobody needs to hear about them
+    if (!this.notifications || attempt.simulateOnly || result.simulated || result.unsigned) return;
+    if (result.errorCode === LiquidationErrorCode.NotProfitable) return;
+
+    const type: NotificationType = result.success ? 'liquidation_succeeded' : 'liquidation_failed';
+    const [debtCoin, collateralCoin] = await Promise.all([
+      this.describeCoin(attempt.debtCoinName),
+      attempt.collateralCoinName ? this.describeCoin(attempt.collateralCoinName) : undefined,
+    ]);
+    this.notifications.notify({
+      type,
+      severity: notificationSeverity(type, result),
+      obligationId: attempt.obligationId,
+      attempt: {
+        kind,
+        debtCoin,
+        collateralCoin,
+        repayAmount: attempt.repayAmount.toString(),
+        estimatedProfitUsd: attempt.estimatedProfitUsd,
+        result,
+      },
+    });
+  }
+
+  /**
+   * Alert on a liquidatable or bad-debt obligation (the dispatcher holds back repeats)
+   */
+  private alertObligation(obligationInfo: ObligationInfo): void {
+    const type: NotificationType | undefined = isBadDebt(obligationInfo)
+      ? 'bad_debt'
+      : obligationInfo.isLiquidatable ? 'liquidatable' : undefined;
+    if (!this.notifications || !type) return;
+    this.notifications.notify({
+      type,
+      severity: notificationSeverity(type),
+      obligationId: obligationInfo.obligationId,
+      obligation: obligationInfo,
+    });
+  }
+
+  // Metadata for messages; a coin that won't resolve is shown in raw units
+  private async describeCoin(coinName: string): Promise<CoinInfo> {
+    return this.coins.resolveByName(coinName).catch(() => ({
+      coinType: '',
+      coinName,
+      symbol: `${coinName.toUpperCase()} (raw units)`,
+      displayName: coinName,
+      decimals: 0,
+      listed: false,
+    }));
+  }
+
+  /**
+   * Dry-run a built transaction and summarize the outcome for our wallet
+   */
+  private async simulate(builder: ScallopBuilder, tx: ScallopTxBlock): Promise<SimulationResult> {
+    // As our wallet: given the SDK's block, SuiKit would use its key's address, a throwaway one when watch-only
+    tx.setSender(builder.walletAddress);
+    const dryRun = await builder.suiKit.dryRunTxn(tx.txBlock);
+    const { status, gasUsed } = dryRun.effects;
+
+    const balanceChanges: BalanceChange[] = [];
+    for (const change of dryRun.balanceChanges) {
+      const owner = change.owner as { AddressOwner?: string };
+      if (owner.AddressOwner === builder.walletAddress) {
+        balanceChanges.push({ coinType: change.coinType, amount: change.amount });
+      }
+    }
+
+    return {
+      success: status.status === 'success',
+      error: status.error,
+      gasCostMist: Number(gasUsed.computationCost) + Number(gasUsed.storageCost) - Number(gasUsed.storageRebate),
+      balanceChanges,
+    };
+  }
+
+  /**
+   * What each liquidation or repayment in an executed transaction repaid, seized and earned
+   *
+   * The protocol's liquidate events give the exact repaid and seized amounts per obligation;
+   * without one, a lone liquidation's collateral (or a repayment's spend) is read from the
+   * wallet's balance changes. Realised profit is the wallet's balance changes at current prices,
+   * shared across a bundle by the value each liquidation seized (evenly when unknown).
+   * The transaction has already executed, so a failed price or coin lookup only leaves gaps.
+   */
+  private async describeExecution(transaction: ExecutedTransaction, legs: ExecutedLeg[]): Promise<ExecutionOutcome[]> {
+    let market: MarketRiskModel | undefined;
+    let realisedProfitUsd: number | null = null;
+    try {
+      market = await this.getMarketRiskModel();
+      realisedProfitUsd = await this.valueBalanceChanges(transaction.balanceChanges, market);
+    } catch (error) {
+      console.warn(`⚠️  Cannot price the executed transaction: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const coinType = async (coinName: string) => (await this.coins.resolveByName(coinName).catch(() => undefined))?.coinType;
+
+    const outcomes = await Promise.all(legs.map(async leg => {
+      const event = transaction.liquidations.get(leg.obligationId.toLowerCase());
+      let repaid = event?.repaid;
+      let collateral = event?.collateral;
+      if (!event && legs.length === 1) {
+        if (!leg.collateralCoinName) {
+          // Repay hands back whatever the debt didn't need
+          const debtType = await coinType(leg.debtCoinName);
+          const spent = debtType ? -walletChange(transaction, debtType) : 0n;
+          repaid = spent > 0n ? spent : undefined;
+        } else if (!leg.swapped && !sameCoin(leg.debtCoinName, leg.collateralCoinName)) {
+          // Nothing arriving means the collateral went elsewhere (a swap the caller didn't know of)
+          const collateralType = await coinType(leg.collateralCoinName);
+          const received = collateralType ? walletChange(transaction, collateralType) : 0n;
+          collateral = received > 0n ? received : undefined;
+        }
+      }
+
+      const price = market && leg.collateralCoinName ? marketPrice(market, leg.collateralCoinName) : undefined;
+      return {
+        repaid: repaid ?? leg.repayAmount,
+        collateral,
+        collateralUsd: collateral !== undefined && price !== undefined ? Number(collateral) * price : undefined,
+      };
+    }));
+
+    const values = outcomes.map(outcome => outcome.collateralUsd);
+    const totalValue = values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+    const weighted = values.every(value => value !== undefined) && totalValue > 0;
+
+    return outcomes.map((outcome, i) => {
+      const share = weighted ? values[i]! / totalValue : 1 / legs.length;
+      return {
+        repaidAmount: outcome.repaid.toString(),
+        collateralReceived: outcome.collateral?.toString(),
+        refundAmount: legs[i].repayAmount > outcome.repaid ? (legs[i].repayAmount - outcome.repaid).toString() : undefined,
+        effects: {
+          gasCostMist: Math.ceil(transaction.gasCostMist / legs.length),
+          balanceChanges: transaction.balanceChanges,
+          realisedProfitUsd: realisedProfitUsd === null ? null : realisedProfitUsd * share,
+        },
+      };
+    });
+  }
+
+  /**
+   * USD value of a set of balance changes at market prices; null when a coin isn't priced by Scallop
+   */
+  private async valueBalanceChanges(changes: BalanceChange[], market: MarketRiskModel): Promise<number | null> {
+    let total = 0;
+    for (const change of changes) {
+      const coin = await this.coins.resolve(normalizeCoinType(change.coinType)).catch(() => undefined);
+      const price = coin?.listed ? marketPrice(market, coin.coinName) : undefined;
+      if (price === undefined) {
+        return null;
+      }
+      total += Number(change.amount) * price;
+    }
+    return total;
+  }
+
+  /**
+   * The transaction bytes as our wallet would sign them, for an external signer
+   * Gas coins are picked from the wallet now, so the bytes go stale once the wallet spends them.
+   */
+  private async buildUnsigned(builder: ScallopBuilder, tx: ScallopTxBlock): Promise<UnsignedTransaction> {
+    tx.setSender(builder.walletAddress);
+    const txBytes = toBase64(await tx.txBlock.build({ client: builder.suiKit.client }));
+    return { txBytes, digest: transactionDigest(txBytes), sender: builder.walletAddress };
+  }
+
+  private describePreflight(preflight: WalletPreflight): LiquidationFailure {
+    // A SUI shortfall is a gas problem only when no SUI is being repaid
+    const repayShort = preflight.checks.some(check =>
+      !check.sufficient && (check.coinType !== SUI_COIN_TYPE || BigInt(check.required) > BigInt(preflight.gasMist))
+    );
+    return {
+      errorCode: repayShort ? LiquidationErrorCode.InsufficientBalance : LiquidationErrorCode.InsufficientGas,
+      error: preflight.problems.join('; '),
+    };
+  }
+
+  private describeWatchOnly(): LiquidationFailure {
+    return {
+      errorCode: LiquidationErrorCode.WatchOnly,
+      error: 'Watch-only: no signing key is loaded, so the transaction was simulated but not sent',
+    };
+  }
+
+  private describeNotProfitable(profit: ProfitBreakdown): LiquidationFailure {
+    return {
+      errorCode: LiquidationErrorCode.NotProfitable,
+      error: `Not profitable after simulated gas: net $${profit.netProfitUsd.toFixed(2)} (${profit.netProfitBps.toFixed(0)} bps), ` +
+        `minimum $${this.profitThresholds.minProfitUsd} / ${this.profitThresholds.minProfitBps} bps`,
+    };
+  }
+
+  /**
+   * Turn a liquidation failure into an error code and an actionable message
+   */
+  private async describeLiquidationError(
+    errorMsg: string,
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint
+  ): Promise<LiquidationFailure> {
+    const { code, abort } = classifyError(errorMsg, await this.getProtocolPackageIds());
+    switch (code) {
+      case LiquidationErrorCode.ObligationLocked:
+        return { errorCode: code, abort, error: `Obligation is locked (Error 770). The obligation owner has staked this in the borrow incentive program. It cannot be liquidated until the owner unstakes it.` };
+      case LiquidationErrorCode.NothingToLiquidate:
+        return { errorCode: code, abort, error: `Liquidation amount must be greater than zero (Error 1537). The debt may be too small to liquidate.` };
+      case LiquidationErrorCode.UnsupportedCoin:
+        return { errorCode: code, error: `Coin "${debtCoinName}" or "${collateralCoinName}" is not supported by Scallop SDK. Common supported coins: usdc, wusdc, wusdt, sui, weth, cetus, sca.` };
+      default:
+        return this.describeCommonError(code, abort, errorMsg, debtCoinName, repayAmount);
+    }
+  }
+
+  /**
+   * Turn a bad-debt repayment failure into an error code and an actionable message
+   */
+  private async describeRepayError(errorMsg: string, debtCoinName: string, repayAmount: bigint): Promise<LiquidationFailure> {
+    const { code, abort } = classifyError(errorMsg, await this.getProtocolPackageIds());
+    switch (code) {
+      case LiquidationErrorCode.ObligationLocked:
+        return { errorCode: code, abort, error: `Obligation is locked (Error 770). The obligation owner has staked this in the borrow incentive program. It cannot be repaid until the owner unstakes it.` };
+      case LiquidationErrorCode.UnsupportedCoin:
+        return { errorCode: code, error: `Coin "${debtCoinName}" is not supported by Scallop SDK. This debt may be in a coin that Scallop no longer supports or was never a valid lending pool. Common supported coins: usdc, wusdc, wusdt, sui, weth, cetus, sca.` };
+      default:
+        return this.describeCommonError(code, abort, errorMsg, debtCoinName, repayAmount);
+    }
+  }
+
+  /**
+   * Messages shared by liquidation and repayment failures
+   */
+  private async describeCommonError(
+    code: LiquidationErrorCode,
+    abort: MoveAbortInfo | undefined,
+    errorMsg: string,
+    debtCoinName: string,
+    repayAmount: bigint
+  ): Promise<LiquidationFailure> {
+    switch (code) {
+      case LiquidationErrorCode.InsufficientBalance:
+        return { errorCode: code, error: await this.describeInsufficientBalance(debtCoinName, repayAmount) };
+      case LiquidationErrorCode.InsufficientGas:
+        return { errorCode: code, error: 'Not enough SUI to pay for gas. Top up the wallet with SUI.' };
+      case LiquidationErrorCode.OracleStalePrice:
+      case LiquidationErrorCode.OraclePriceNotFound:
+      case LiquidationErrorCode.OracleZeroPrice:
+        return { errorCode: code, abort, error: `Oracle price check failed (Error ${abort?.code}). The price feed may be stale or unavailable; retry shortly.` };
+      case LiquidationErrorCode.FlashLoanRepayShortfall:
+        return { errorCode: code, abort, error: `Flash loan could not be repaid in full (Error ${abort?.code}). Fund the liquidation from the wallet instead.` };
+      case LiquidationErrorCode.OutflowLimitReached:
+        return { errorCode: code, abort, error: `Pool outflow limit reached (Error ${abort?.code}). Withdrawals from this pool are throttled; retry later.` };
+      case LiquidationErrorCode.VersionMismatch:
+        return { errorCode: code, abort, error: `Protocol version mismatch (Error ${abort?.code}). Scallop has been upgraded; update the Scallop SDK.` };
+      case LiquidationErrorCode.InsufficientCoinValue:
+        return { errorCode: code, abort, error: `A coin came up short inside the transaction (${formatMoveAbort(abort!)}). When swapping, the output likely fell below its minimum; retry or raise --slippage.` };
+      default:
+        return { errorCode: code, abort, error: abort ? `${errorMsg} (${formatMoveAbort(abort)})` : errorMsg };
+    }
+  }
+
+  /**
+   * The Scallop protocol package, as first published and as currently upgraded, from the SDK's address registry
+   */
+  private async getProtocolPackageIds(): Promise<string[]> {
+    try {
+      const query = await this.scallop.createScallopQuery();
+      return [query.address.get('core.object'), query.address.get('core.packages.protocol.id')].filter(Boolean);
+    } catch {
+      // Already failing: without the registry the abort is reported as a raw MoveAbort
+      return [];
+    }
+  }
+
+  private async describeInsufficientBalance(debtCoinName: string, repayAmount: bigint): Promise<string> {
+    // Already failing: an unresolvable coin shows the raw amount instead of masking the error
+    const coin = await this.coins.resolveByName(debtCoinName).catch(() => undefined);
+    const required = coin
+      ? `${(Number(repayAmount) / Math.pow(10, coin.decimals)).toFixed(6)} ${coin.symbol}`
+      : `${repayAmount} (raw units)`;
+    const symbol = coin?.symbol ?? debtCoinName.toUpperCase();
+    return `Insufficient ${symbol} balance. Required: ${required}. Please ensure you have enough ${symbol} in your wallet.`;
+  }
+
+  /**
+   * Choose the debt/collateral pair and repay amount for an obligation
+   * Uses the best-ranked pair unless `selection` pins a debt and/or collateral coin.
+   * Returns null when there is nothing to liquidate against
+   */
+  async planLiquidation(
+    obligationInfo: ObligationInfo,
+    selection: PairSelection = {},
+    options: PlanOptions = {}
+  ): Promise<LiquidationPlan | null> {
+    const candidates = await this.rankLiquidationPairs(obligationInfo, options);
+    if (candidates.length === 0) {
+      this.recordCheck(obligationInfo, null);
+      return null;
+    }
+
+    const { debtCoinName, collateralCoinName } = selection;
+    if (debtCoinName && !obligationInfo.debts.some(d => sameCoin(d.coinName, debtCoinName))) {
+      throw new Error(`Obligation has no ${debtCoinName} debt. Debts: ${obligationInfo.debts.map(d => d.coinName).join(', ')}`);
+    }
+    if (collateralCoinName && !obligationInfo.collaterals.some(c => sameCoin(c.coinName, collateralCoinName))) {
+      throw new Error(`Obligation has no ${collateralCoinName} collateral. Collaterals: ${obligationInfo.collaterals.map(c => c.coinName).join(', ')}`);
+    }
+    for (const coinName of [debtCoinName, collateralCoinName]) {
+      if (coinName && !this.isCoinAllowed(coinName)) {
+        throw new Error(`${coinName} is excluded by the allowCoins/denyCoins settings`);
+      }
+    }
+
+    const chosen = candidates.find(candidate =>
+      (!debtCoinName || sameCoin(candidate.debt.coinName, debtCoinName)) &&
+      (!collateralCoinName || sameCoin(candidate.collateral.coinName, collateralCoinName))
+    );
+    if (!chosen) {
+      throw new Error(await this.describeSkippedPair(obligationInfo, selection));
+    }
+
+    this.recordCheck(obligationInfo, chosen);
+    return { ...chosen, candidates };
+  }
+
+  /**
+   * Why rankLiquidationPairs produced no candidate for the pinned coins: the other side
+   * is excluded by allowCoins/denyCoins, or the market has no risk model to compute a repay amount
+   */
+  private async describeSkippedPair(obligationInfo: ObligationInfo, selection: PairSelection): Promise<string> {
+    const { debtCoinName, collateralCoinName } = selection;
+    const market = await this.getMarketRiskModel();
+    const reasons = [
+      ...obligationInfo.debts
+        .filter(d => !debtCoinName || sameCoin(d.coinName, debtCoinName))
+        .map(d => !this.isCoinAllowed(d.coinName) ? `${d.coinName} is excluded by allowCoins/denyCoins`
+          : !market.pools[d.coinName] ? `${d.coinName} has no borrow pool in the risk model` : null),
+      ...obligationInfo.collaterals
+        .filter(c => !collateralCoinName || sameCoin(c.coinName, collateralCoinName))
+        .map(c => !this.isCoinAllowed(c.coinName) ? `${c.coinName} is excluded by allowCoins/denyCoins`
+          : !market.collaterals[c.coinName] ? `${c.coinName} has no collateral entry in the risk model` : null),
+    ].filter((reason): reason is string => reason !== null);
+
+    const pair = `${debtCoinName ?? 'any debt'} → ${collateralCoinName ?? 'any collateral'}`;
+    return `Cannot liquidate ${pair}: ${reasons.length > 0 ? reasons.join('; ') : 'no repay amount could be computed'}`;
+  }
+
+  private recordCheck(obligationInfo: ObligationInfo, chosen: LiquidationCandidate | null): void {
+    const liquidatable = obligationInfo.isLiquidatable && chosen !== null && chosen.repayAmount > 0n;
+    this.journal?.record({
+      kind: 'check',
+      outcome: !liquidatable ? 'not_liquidatable' : chosen.profitable ? 'liquidatable' : 'not_profitable',
+      obligationId: obligationInfo.obligationId,
+      riskLevel: obligationInfo.riskLevel,
+      debtCoinName: chosen?.debt.coinName,
+      collateralCoinName: chosen?.collateral.coinName,
+      repayAmount: chosen?.repayAmount.toString(),
+      funding: chosen?.funding,
+      estimatedProfitUsd: chosen?.estimatedProfitUsd,
+    });
+  }
+
+  /**
+   * Evaluate every debt × collateral pair and rank them by expected profit (best first)
+   *
+   * Each pair's repay amount comes from the protocol's liquidation math (see calculateMaxRepay),
+   * capped by how much of the debt coin our wallet holds and the configured maxRepay. Pairs
+   * the market has no risk model for, or involving a coin excluded by allowCoins/denyCoins,
+   * are skipped.
+   *
+   * With `flashLoan`, the cap is the debt pool's liquidity instead and the loan fee is
+   * deducted from the profit. Pairs whose collateral can't repay the loan (no swap route)
+   * fall back to wallet funding, with the reason in `fundingNote`.
+   *
+   * With `swapTo`, profit is based on the quoted swap output rather than the collateral's
+   * market value.
+   *
+   * Profit is itemized (see estimateProfit) with an estimated gas cost; pairs are profitable
+   * when the net profit meets the liquidator's minimum in USD and basis points.
+   */
+  async rankLiquidationPairs(obligationInfo: ObligationInfo, options: PlanOptions = {}): Promise<LiquidationCandidate[]> {
+    const { debts, collaterals } = obligationInfo;
+    if (debts.length === 0 || collaterals.length === 0) {
+      return [];
+    }
+
+    const debtCoinNames = debts.map(d => d.coinName);
+    const [market, balances, feeRates] = await Promise.all([
+      this.getMarketRiskModel(),
+      this.getWalletBalances(debtCoinNames),
+      options.flashLoan ? this.getFlashLoanFeeRates(debtCoinNames) : Promise.resolve({} as Record<string, number>),
+    ]);
+
+    const candidates: LiquidationCandidate[] = [];
+    for (const debt of debts) {
+      for (const collateral of collaterals) {
+        if (!this.isCoinAllowed(debt.coinName) || !this.isCoinAllowed(collateral.coinName)) continue;
+        const walletBalance = balances[debt.coinName] ?? 0;
+        // Watching without an address there is no wallet to cap the repay amount
+        const walletCap = this.wallet === 'none' ? undefined : walletBalance;
+
+        let fundingNote: string | undefined;
+        if (options.flashLoan) {
+          const pool = market.pools[debt.coinName];
+          const liquidity = pool ? Math.max(pool.supplyAmount - pool.borrowAmount, 0) : 0;
+          const calculation = this.computeRepay(obligationInfo, debt, collateral, market, liquidity);
+          if (!calculation) continue;
+          if (calculation.limitedBy === 'inventory') {
+            calculation.limitedBy = 'liquidity';
+          }
+
+          try {
+            const flashLoan = await this.findFlashLoanRoute(
+              debt.coinName,
+              collateral.coinName,
+              calculation.repayAmount,
+              calculation.collateralSeized,
+              feeRates[debt.coinName]
+            );
+            const debtPrice = calculation.repayAmount > 0n ? calculation.repayUsd / Number(calculation.repayAmount) : 0;
+            candidates.push(this.toCandidate(calculation, debt, collateral, walletBalance, market, {
+              funding: 'flashloan',
+              flashLoan,
+              swap: flashLoan.swap ?? undefined,
+            }, Number(flashLoan.fee) * debtPrice));
+            continue;
+          } catch (error) {
+            fundingNote = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        const calculation = this.computeRepay(obligationInfo, debt, collateral, market, walletCap);
+        if (!calculation) continue;
+
+        let swap: SwapQuote | undefined;
+        let swapNote: string | undefined;
+        const swapTo = options.swapTo && resolveSwapTarget(options.swapTo, debt.coinName);
+        if (swapTo && !sameCoin(swapTo, collateral.coinName) && calculation.collateralSeized > 0n) {
+          try {
+            swap = await this.quoteSwap(collateral.coinName, swapTo, calculation.collateralSeized);
+          } catch (error) {
+            swapNote = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        candidates.push(this.toCandidate(calculation, debt, collateral, walletBalance, market, {
+          funding: 'wallet',
+          fundingNote,
+          swap,
+          swapNote,
+        }, 0));
+      }
+    }
+
+    return candidates.sort((a, b) => b.estimatedProfitUsd - a.estimatedProfitUsd);
+  }
+
+  private toCandidate(
+    calculation: RepayCalculation,
+    debt: DebtInfo,
+    collateral: CollateralInfo,
+    walletBalance: number,
+    market: MarketRiskModel,
+    routing: Pick<LiquidationCandidate, 'funding' | 'flashLoan' | 'fundingNote' | 'swap' | 'swapNote'>,
+    flashLoanFeeUsd: number
+  ): LiquidationCandidate {
+    // A quoted swap is valued at its output; otherwise we keep the collateral at market value
+    const swapOutPrice = routing.swap ? marketPrice(market, routing.swap.toCoinName) : undefined;
+    const proceedsUsd = routing.swap && swapOutPrice !== undefined
+      ? Number(routing.swap.amountOut) * swapOutPrice
+      : calculation.collateralSeizedUsd;
+
+    const profit = estimateProfit({
+      collateralValueUsd: calculation.collateralSeizedUsd,
+      repayUsd: calculation.repayUsd,
+      liquidationDiscount: calculation.riskModel.liquidationDiscount,
+      proceedsUsd,
+      flashLoanFeeUsd,
+      gasCostMist: estimateGasMist({ flashLoan: routing.funding === 'flashloan', swap: routing.swap !== undefined }),
+      suiPriceUsd: (marketPrice(market, 'sui') ?? 0) * 1e9,
+    });
     return {
-      profitable: estimatedProfitUsd > 0.1, // Profitable if > $0.1 (after gas)
-      estimatedProfitUsd,
+      ...calculation,
+      debt,
+      collateral,
+      walletBalance,
+      ...routing,
+      proceedsUsd,
+      profit,
+      estimatedProfitUsd: profit.netProfitUsd,
+      profitable: isProfitable(profit, this.profitThresholds),
     };
   }
+
+  /**
+   * Compute the exact repay amount the protocol allows for a pair
+   *
+   * Reads the risk model of both pools (collateral factor, liquidation factor,
+   * penalty, discount, reserve factor and borrow weight) and mirrors the on-chain
+   * liquidation math: repay just enough to bring the obligation back to health,
+   * bounded by the collateral held and the debt owed.
+   *
+   * @param availableRepayAmount - Optional raw cap on what we can repay (wallet inventory)
+   */
+  async calculateMaxRepay(
+    obligationInfo: ObligationInfo,
+    debtCoinName: string,
+    collateralCoinName: string,
+    availableRepayAmount?: number
+  ): Promise<RepayCalculation> {
+    const debt = obligationInfo.debts.find(d => sameCoin(d.coinName, debtCoinName));
+    const collateral = obligationInfo.collaterals.find(c => sameCoin(c.coinName, collateralCoinName));
+    if (!debt) {
+      throw new Error(`Obligation has no ${debtCoinName} debt`);
+    }
+    if (!collateral) {
+      throw new Error(`Obligation has no ${collateralCoinName} collateral`);
+    }
+
+    const market = await this.getMarketRiskModel();
+    const calculation = this.computeRepay(obligationInfo, debt, collateral, market, availableRepayAmount);
+    if (!calculation) {
+      throw new Error(`No Scallop risk model for ${debt.coinName} → ${collateral.coinName}`);
+    }
+    return calculation;
+  }
+
+  private computeRepay(
+    obligationInfo: ObligationInfo,
+    debt: DebtInfo,
+    collateral: CollateralInfo,
+    market: MarketRiskModel,
+    availableRepayAmount?: number
+  ): RepayCalculation | null {
+    const debtPool = market.pools[debt.coinName];
+    const collateralPool = market.collaterals[collateral.coinName];
+    if (!debtPool || !collateralPool) {
+      return null;
+    }
+
+    // Weighted totals across the whole obligation, valued at market prices
+    let weightedDebtUsd = 0;
+    for (const d of obligationInfo.debts) {
+      const pool = market.pools[d.coinName];
+      weightedDebtUsd += d.amount * rawPrice(pool, d) * (pool?.borrowWeight ?? 1);
+    }
+    let liquidationCollateralUsd = 0;
+    for (const c of obligationInfo.collaterals) {
+      const pool = market.collaterals[c.coinName];
+      liquidationCollateralUsd += c.amount * rawPrice(pool, c) * (pool?.liquidationFactor ?? 0);
+    }
+
+    const debtPrice = rawPrice(debtPool, debt);
+    const collateralPrice = rawPrice(collateralPool, collateral);
+
+    // The configured max repay caps the amount like a smaller wallet would
+    const maxRepayCoin = this.maxRepay[debt.coinName.toLowerCase()];
+    const configCap = maxRepayCoin === undefined ? undefined : Math.floor(maxRepayCoin * Math.pow(10, debtPool.coinDecimal));
+    const cappedByConfig = configCap !== undefined && (availableRepayAmount === undefined || configCap < availableRepayAmount);
+
+    const amounts = computeLiquidationAmounts({
+      weightedDebtUsd,
+      liquidationCollateralUsd,
+      debtAmount: debt.amount,
+      debtPrice,
+      borrowWeight: debtPool.borrowWeight,
+      collateralAmount: collateral.amount,
+      collateralPrice,
+      liquidationFactor: collateralPool.liquidationFactor,
+      liquidationPenalty: collateralPool.liquidationPenalty,
+      liquidationDiscount: collateralPool.liquidationDiscount,
+      availableRepayAmount: cappedByConfig ? configCap : availableRepayAmount,
+    });
+
+    return {
+      riskModel: {
+        collateralFactor: collateralPool.collateralFactor,
+        liquidationFactor: collateralPool.liquidationFactor,
+        liquidationPenalty: collateralPool.liquidationPenalty,
+        liquidationDiscount: collateralPool.liquidationDiscount,
+        liquidationReserveFactor: collateralPool.liquidationReserveFactor,
+        borrowWeight: debtPool.borrowWeight,
+      },
+      maxRepayAmount: BigInt(amounts.maxRepayAmount),
+      repayAmount: BigInt(amounts.repayAmount),
+      repayUsd: amounts.repayAmount * debtPrice,
+      collateralSeized: BigInt(amounts.collateralSeized),
+      collateralSeizedCoin: amounts.collateralSeized / Math.pow(10, collateralPool.coinDecimal),
+      collateralSeizedUsd: amounts.collateralSeized * collateralPrice,
+      limitedBy: cappedByConfig && amounts.limitedBy === 'inventory' ? 'config' : amounts.limitedBy,
+      resultingRiskLevel: amounts.resultingRiskLevel,
+    };
+  }
+
+  /**
+   * Risk model and prices for every market pool and collateral pool
+   */
+  private async getMarketRiskModel(): Promise<MarketRiskModel> {
+    const query = await this.scallop.createScallopQuery();
+    const { pools, collaterals } = await query.getMarketPools();
+    return { pools, collaterals };
+  }
+
+  /**
+   * Raw balances of the given coins in our wallet
+   */
+  private async getWalletBalances(coinNames: string[]): Promise<Record<string, number>> {
+    if (this.wallet === 'none') {
+      return {};
+    }
+    const query = await this.scallop.createScallopQuery();
+    const amounts = await query.getCoinAmounts([...new Set(coinNames)], query.walletAddress);
+
+    const balances: Record<string, number> = {};
+    for (const coinName of coinNames) {
+      balances[coinName] = amounts[coinName] ?? 0;
+    }
+    return balances;
+  }
+
+  /**
+   * Flash loan fee rate per pool (fraction of the loan, e.g. 0.0005)
+   */
+  private async getFlashLoanFeeRates(coinNames: string[]): Promise<Record<string, number>> {
+    const query = await this.scallop.createScallopQuery();
+    return query.getFlashLoanFees([...new Set(coinNames)]);
+  }
+
+  /**
+   * Itemized profit estimate for a specific pair
+   *
+   * With `simulate`, the liquidation is dry-run and the gas estimate is replaced by the
+   * simulated cost. Returns null when the pair has no risk model.
+   */
+  async estimateLiquidationProfit(
+    obligationInfo: ObligationInfo,
+    debtCoinName: string,
+    collateralCoinName: string,
+    options: PlanOptions & { simulate?: boolean } = {}
+  ): Promise<{ profitable: boolean; profit: ProfitBreakdown } | null> {
+    const candidates = await this.rankLiquidationPairs(obligationInfo, options);
+    const candidate = candidates.find(c =>
+      sameCoin(c.debt.coinName, debtCoinName) && sameCoin(c.collateral.coinName, collateralCoinName)
+    );
+
+    if (!candidate) {
+      return null;
+    }
+
+    let profit = candidate.profit;
+    if (options.simulate && candidate.repayAmount > 0n) {
+      const result = await this.liquidate(
+        obligationInfo.obligationId,
+        candidate.debt.coinName,
+        candidate.collateral.coinName,
+        candidate.repayAmount,
+        { simulateOnly: true, flashLoan: candidate.funding === 'flashloan', swapTo: options.swapTo, profit }
+      );
+      if (!result.success) {
+        throw new Error(`Simulation failed: ${result.error}`);
+      }
+      profit = result.profit ?? profit;
+    }
+
+    return { profitable: isProfitable(profit, this.profitThresholds), profit };
+  }
 }
@@ -0,0 +1,252 @@
+/**
+ * Prometheus metrics - what a long-running liquidator is doing, in the text exposition format
+ *
+ * The liquidator counts obligation checks and attempts, the RPC pool times every request,
+ * and collectors fill in gauges (tracked obligations, fullnode health, wallet balances)
+ * each time /metrics is scraped. Nothing is recorded unless a Metrics instance is passed in.
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { EndpointStats, JournalOutcome, LiquidationResult, WalletBalance, WatchState } from './types.js';
+
+export const DEFAULT_METRICS_HOST = '127.0.0.1';
+
+// Seconds; fullnode calls range from tens of milliseconds to the 15s timeout
+const RPC_LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15];
+
+export type ObligationCheckResult = 'healthy' | 'liquidatable' | 'bad_debt' | 'error';
+export type RpcRequestResult = 'ok' | 'rpc_error' | 'failure' | 'cancelled';
+
+type Labels = Record<string, string>;
+type Collector = () => void | Promise<void>;
+
+/**
+ * One metric and its series, one per distinct label set
+ */
+abstract class MetricFamily<Series> {
+  readonly name: string;
+  private help: string;
+  private type: string;
+  protected series = new Map<string, { labels: Labels; value: Series }>();
+
+  constructor(name: string, help: string, type: string) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected entry(labels: Labels, initial: () => Series): { labels: Labels; value: Series } {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: Series): string[];
+}
+
+class Counter extends MetricFamily<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [sample(this.name, labels, value)];
+  }
+}
+
+class Gauge extends MetricFamily<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  // Series that are gone (a coin spent to zero) should disappear rather than freeze
+  clear(): void {
+    this.series.clear();
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [sample(this.name, labels, value)];
+  }
+}
+
+type HistogramSeries = { counts: number[]; sum: number; count: number };
+
+class Histogram extends MetricFamily<HistogramSeries> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram');
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(labels: Labels, series: HistogramSeries): string[] {
+    return [
+      ...this.buckets.map((bound, i) => sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, series.counts[i])),
+      sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, series.count),
+      sample(`${this.name}_sum`, labels, series.sum),
+      sample(`${this.name}_count`, labels, series.count),
+    ];
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([key, label]) =>
+    `${key}="${label.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  const text = Number.isNaN(value) ? 'NaN' : value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${text}`;
+}
+
+export class Metrics {
+  private obligationChecks = new Counter('sliq_obligation_checks_total', 'Obligations queried, by the state found');
+  private obligationsTracked = new Gauge('sliq_obligations_tracked', 'Obligations the watcher tracks, by last known state');
+  private attempts = new Counter('sliq_liquidation_attempts_total', 'Liquidations, repayments and submissions, by outcome');
+  private failures = new Counter('sliq_liquidation_failures_total', 'Failed attempts, by error code');
+  private estimatedProfit = new Counter('sliq_estimated_profit_usd_total', 'Profit estimated before sending, for attempts that succeeded');
+  private realisedProfit = new Counter('sliq_realised_profit_usd_total', 'Profit read from executed transactions, net of gas');
+  private gasSpent = new Counter('sliq_gas_spent_sui_total', 'Gas paid by transactions that reached the chain, in SUI');
+  private rpcRequests = new Counter('sliq_rpc_requests_total', 'Fullnode requests, by endpoint, method and result');
+  private rpcLatency = new Histogram('sliq_rpc_request_duration_seconds', 'Fullnode request latency, by endpoint', RPC_LATENCY_BUCKETS);
+  private rpcHealthy = new Gauge('sliq_rpc_endpoint_healthy', '1 when the fullnode is in use, 0 while it cools down after failures');
+  private walletBalances = new Gauge('sliq_wallet_balance', 'Wallet balance in whole coins (raw units for coins without metadata)');
+  private collectors: Collector[] = [];
+
+  recordCheck(result: ObligationCheckResult): void {
+    this.obligationChecks.inc({ result });
+  }
+
+  recordAttempt(kind: 'liquidate' | 'repay' | 'submit', outcome: JournalOutcome, result: LiquidationResult, estimatedProfitUsd?: number): void {
+    this.attempts.inc({ kind, outcome });
+    if (outcome === 'failed') {
+      this.failures.inc({ kind, error_code: result.errorCode ?? 'UNKNOWN' });
+    }
+    if (outcome === 'succeeded') {
+      this.estimatedProfit.inc({}, estimatedProfitUsd ?? 0);
+      this.realisedProfit.inc({}, result.effects?.realisedProfitUsd ?? 0);
+    }
+    if (result.effects) {
+      this.gasSpent.inc({}, result.effects.gasCostMist / 1e9);
+    }
+  }
+
+  recordRpcRequest(endpoint: string, method: string, result: RpcRequestResult, seconds: number): void {
+    this.rpcRequests.inc({ endpoint, method, result });
+    if (result !== 'cancelled') {
+      this.rpcLatency.observe({ endpoint }, seconds);
+    }
+  }
+
+  setTrackedObligations(counts: Record<WatchState, number>): void {
+    for (const [state, count] of Object.entries(counts)) {
+      this.obligationsTracked.set({ state }, count);
+    }
+  }
+
+  setRpcHealth(endpoints: EndpointStats[]): void {
+    for (const endpoint of endpoints) {
+      this.rpcHealthy.set({ endpoint: endpoint.url }, endpoint.healthy ? 1 : 0);
+    }
+  }
+
+  setWalletBalances(balances: WalletBalance[]): void {
+    this.walletBalances.clear();
+    for (const coin of balances) {
+      this.walletBalances.set(
+        { coin_type: coin.coinType, symbol: coin.symbol },
+        Number(coin.balance) / Math.pow(10, coin.decimals)
+      );
+    }
+  }
+
+  /**
+   * Run `collector` before every scrape, to refresh gauges read from elsewhere
+   */
+  addCollector(collector: Collector): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Every metric in the Prometheus text format; a failing collector leaves its gauges as they were
+   */
+  async render(): Promise<string> {
+    const results = await Promise.allSettled(this.collectors.map(async collector => collector()));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.warn(`⚠️  Metrics collector failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      }
+    }
+
+    const families = [
+      this.obligationChecks, this.obligationsTracked, this.attempts, this.failures,
+      this.estimatedProfit, this.realisedProfit, this.gasSpent,
+      this.rpcRequests, this.rpcLatency, this.rpcHealthy, this.walletBalances,
+    ];
+    return families.flatMap(family => family.render()).join('\n') + '\n';
+  }
+}
+
+export interface MetricsServer {
+  url: string;                  // e.g. http://127.0.0.1:9464/metrics
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `metrics` on GET /metrics; every other path is a 404
+ */
+export async function serveMetrics(metrics: Metrics, port: number, host: string = DEFAULT_METRICS_HOST): Promise<MetricsServer> {
+  const server = createServer((request, response) => {
+    if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+      response.writeHead(404, { 'content-type': 'text/plain' }).end('Not found: metrics are on GET /metrics\n');
+      return;
+    }
+    metrics.render().then(
+      body => response.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' }).end(body),
+      error => response.writeHead(500, { 'content-type': 'text/plain' }).end(`${error instanceof Error ? error.message : String(error)}\n`)
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', error => reject(new Error(`Cannot serve metrics on ${host}:${port}: ${error.message}`)));
+    server.listen(port, host, resolve);
+  });
+  // Scrapes must not keep a stopped watcher alive
+  server.unref();
+
+  return {
+    url: `http://${host.includes(':') ? `[${host}]` : host}:${(server.address() as AddressInfo).port}/metrics`,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
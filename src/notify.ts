@@ -0,0 +1,397 @@
+/**
+ * Notifications - alert the team on Telegram, Discord or any webhook
+ *
+ * The liquidator reports liquidatable and bad-debt obligations as it finds them, and the result
+ * of every liquidation or repayment it executes. Each channel picks the event types and minimum
+ * severity it wants and has its own rate limit: notifications over the limit are dropped, and
+ * the next one that goes out says how many were. An obligation alert for the same obligation
+ * repeats only after `repeatAfterSec`. Sending never blocks or fails a liquidation; call
+ * flushNotifications() before exiting so queued messages go out.
+ */
+
+import { LiquidationErrorCode } from './errors.js';
+import type {
+  CoinInfo,
+  LiquidationResult,
+  Notification,
+  NotificationSeverity,
+  NotificationType,
+  NotifierConfig,
+} from './types.js';
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['liquidatable', 'bad_debt', 'liquidation_succeeded', 'liquidation_failed'];
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+export const NOTIFIER_TYPES: NotifierConfig['type'][] = ['webhook', 'telegram', 'discord'];
+
+export const DEFAULT_NOTIFY_RATE_LIMIT_PER_MIN = 20;
+export const DEFAULT_NOTIFY_REPEAT_SEC = 3600;
+export const DEFAULT_TELEGRAM_API_URL = 'https://api.telegram.org';
+
+const SEND_TIMEOUT_MS = 10_000;
+
+// Placeholders a template may use; values that don't apply render as "-"
+export const TEMPLATE_FIELDS = [
+  'type', 'severity', 'obligationId', 'obligation', 'riskLevel',
+  'debts', 'collaterals', 'debtValueUsd', 'collateralValueUsd',
+  'debtCoin', 'collateralCoin', 'repaid', 'refund', 'collateralReceived', 'funding',
+  'estimatedProfitUsd', 'realisedProfitUsd', 'gas', 'txDigest', 'txUrl', 'errorCode', 'error',
+] as const;
+
+export type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+// A rendered notification, plus the fields it was rendered from
+export interface NotificationMessage {
+  notification: Notification;
+  title: string;                // e.g. "🚨 Liquidation failed"
+  text: string;
+  fields: Record<TemplateField, string>;
+}
+
+export interface Notifier {
+  readonly name: string;
+
+  /**
+   * Deliver one message; throws when the channel can't be reached or rejects it
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
+
+const DEFAULT_TEMPLATES: Record<NotificationType, string> = {
+  liquidatable: [
+    'Obligation {obligation} is liquidatable at {riskLevel} risk',
+    'Debt: {debts} ({debtValueUsd})',
+    'Collateral: {collaterals} ({collateralValueUsd})',
+  ].join('\n'),
+  bad_debt: 'Obligation {obligation} has bad debt: {debts} ({debtValueUsd}) and no collateral left',
+  liquidation_succeeded: [
+    'Obligation {obligation}: repaid {repaid}, received {collateralReceived}',
+    'Realised profit {realisedProfitUsd} (estimated {estimatedProfitUsd}), gas {gas}',
+    '{txUrl}',
+  ].join('\n'),
+  liquidation_failed: [
+    'Obligation {obligation} ({debtCoin} → {collateralCoin}, {funding}): {errorCode}',
+    '{error}',
+    '{txUrl}',
+  ].join('\n'),
+};
+
+const TITLES: Record<NotificationType, string> = {
+  liquidatable: 'Liquidatable obligation',
+  bad_debt: 'Bad debt',
+  liquidation_succeeded: 'Liquidation succeeded',
+  liquidation_failed: 'Liquidation failed',
+};
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = { info: 'ℹ️', warning: '⚠️', critical: '🚨' };
+
+// Failures nobody can fix without topping up the wallet
+const CRITICAL_ERRORS = new Set<LiquidationErrorCode | undefined>([
+  LiquidationErrorCode.InsufficientBalance,
+  LiquidationErrorCode.InsufficientGas,
+]);
+
+/**
+ * How loud a notification is: failures that need the wallet topped up are critical
+ */
+export function notificationSeverity(type: NotificationType, result?: LiquidationResult): NotificationSeverity {
+  switch (type) {
+    case 'liquidatable':
+    case 'liquidation_succeeded':
+      return 'info';
+    case 'bad_debt':
+      return 'warning';
+    case 'liquidation_failed':
+      return CRITICAL_ERRORS.has(result?.errorCode) ? 'critical' : 'warning';
+  }
+}
+
+/**
+ * Fill in a template (the built-in one unless the channel has its own)
+ * Lines whose placeholders all came out empty are dropped.
+ */
+export function renderNotification(notification: Notification, template?: string, suppressed = 0): NotificationMessage {
+  const fields = templateFields(notification);
+  const lines = (template ?? DEFAULT_TEMPLATES[notification.type])
+    .split('\n')
+    .filter(line => {
+      const values = [...line.matchAll(/\{(\w+)\}/g)].map(([, name]) => fields[name as TemplateField]);
+      return values.length === 0 || values.some(value => value !== '-');
+    })
+    .map(line => line.replace(/\{(\w+)\}/g, (placeholder, name: string) => fields[name as TemplateField] ?? placeholder));
+  if (suppressed > 0) {
+    lines.push(`(${suppressed} earlier notification${suppressed === 1 ? '' : 's'} dropped by the rate limit)`);
+  }
+
+  const label = notification.attempt?.kind === 'repay' ? TITLES[notification.type].replace('Liquidation', 'Repayment') : TITLES[notification.type];
+  return {
+    notification,
+    title: `${SEVERITY_ICONS[notification.severity]} ${notification.test ? '[test] ' : ''}${label}`,
+    text: lines.join('\n'),
+    fields,
+  };
+}
+
+function templateFields(notification: Notification): Record<TemplateField, string> {
+  const { obligation, attempt } = notification;
+  const result = attempt?.result;
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    type: notification.type,
+    severity: notification.severity,
+    obligationId: notification.obligationId,
+    obligation: `${notification.obligationId.slice(0, 6)}…${notification.obligationId.slice(-4)}`,
+    riskLevel: !obligation ? '-' : Number.isFinite(obligation.riskLevel) ? `${(obligation.riskLevel * 100).toFixed(2)}%` : '∞',
+    debts: obligation ? obligation.debts.map(debt => `${debt.amountCoin.toFixed(6)} ${debt.coinSymbol}`).join(', ') || 'none' : '-',
+    collaterals: obligation
+      ? obligation.collaterals.map(collateral => `${collateral.amountCoin.toFixed(6)} ${collateral.coinSymbol}`).join(', ') || 'none'
+      : '-',
+    debtValueUsd: formatUsd(obligation && sum(obligation.debts.map(debt => debt.valueUsd))),
+    collateralValueUsd: formatUsd(obligation && sum(obligation.collaterals.map(collateral => collateral.valueUsd))),
+    debtCoin: attempt?.debtCoin.symbol ?? '-',
+    collateralCoin: attempt?.collateralCoin?.symbol ?? '-',
+    repaid: attempt ? formatCoin(result?.repaidAmount ?? attempt.repayAmount, attempt.debtCoin) : '-',
+    refund: attempt && result?.refundAmount ? formatCoin(result.refundAmount, attempt.debtCoin) : '-',
+    collateralReceived: attempt?.collateralCoin && result?.collateralReceived
+      ? formatCoin(result.collateralReceived, attempt.collateralCoin)
+      : '-',
+    funding: result?.funding ?? '-',
+    estimatedProfitUsd: formatUsd(attempt?.estimatedProfitUsd),
+    realisedProfitUsd: formatUsd(result?.effects?.realisedProfitUsd),
+    gas: result?.effects ? `${(result.effects.gasCostMist / 1e9).toFixed(6)} SUI` : '-',
+    txDigest: result?.txDigest ?? '-',
+    txUrl: result?.txDigest ? `https://suivision.xyz/txblock/${result.txDigest}` : '-',
+    errorCode: result?.errorCode ?? '-',
+    error: result?.error ?? '-',
+  };
+}
+
+function formatUsd(value: number | null | undefined): string {
+  return value === undefined || value === null ? '-' : `$${value.toFixed(2)}`;
+}
+
+function formatCoin(raw: string, coin: CoinInfo): string {
+  return `${(Number(raw) / Math.pow(10, coin.decimals)).toFixed(6)} ${coin.symbol}`;
+}
+
+// Sends still in flight, across every dispatcher
+const pending = new Set<Promise<void>>();
+
+/**
+ * Wait for queued notifications to go out (each send times out after 10s)
+ */
+export async function flushNotifications(): Promise<void> {
+  await Promise.allSettled([...pending]);
+}
+
+type Channel = {
+  notifier: Notifier;
+  config: NotifierConfig;
+  sentAt: number[];             // Send times within the last minute
+  suppressed: number;           // Dropped by the rate limit since the last send
+  alertedAt: Map<string, number>;  // Obligation alerts by "<type>:<obligation>"
+  failing: boolean;
+};
+
+export class NotificationDispatcher {
+  private channels: Channel[];
+
+  constructor(channels: Array<{ notifier: Notifier; config: NotifierConfig }>) {
+    this.channels = channels.map(({ notifier, config }) => ({
+      notifier,
+      config,
+      sentAt: [],
+      suppressed: 0,
+      alertedAt: new Map(),
+      failing: false,
+    }));
+  }
+
+  get names(): string[] {
+    return this.channels.map(channel => channel.notifier.name);
+  }
+
+  /**
+   * Queue a notification on every channel that wants it; returns at once
+   */
+  notify(notification: Notification): void {
+    for (const channel of this.channels) {
+      if (!this.accepts(channel, notification)) continue;
+
+      const message = renderNotification(notification, channel.config.templates?.[notification.type], channel.suppressed);
+      channel.suppressed = 0;
+      const send = this.deliver(channel, message);
+      pending.add(send);
+      void send.finally(() => pending.delete(send));
+    }
+  }
+
+  /**
+   * Send a notification to every channel now, ignoring filters and rate limits
+   * @returns One entry per channel, with the error when it failed
+   */
+  async test(notification: Notification): Promise<Array<{ channel: string; error?: string }>> {
+    return Promise.all(this.channels.map(async channel => {
+      try {
+        await channel.notifier.send(renderNotification(notification, channel.config.templates?.[notification.type]));
+        return { channel: channel.notifier.name };
+      } catch (error) {
+        return { channel: channel.notifier.name, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+  }
+
+  private accepts(channel: Channel, notification: Notification): boolean {
+    const { config } = channel;
+    if (config.events && !config.events.includes(notification.type)) return false;
+    const minSeverity = NOTIFICATION_SEVERITIES.indexOf(config.minSeverity ?? 'info');
+    if (NOTIFICATION_SEVERITIES.indexOf(notification.severity) < minSeverity) return false;
+
+    const now = Date.now();
+    const key = notification.obligation ? `${notification.type}:${notification.obligationId}` : undefined;
+    if (key) {
+      const repeatAfterMs = (config.repeatAfterSec ?? DEFAULT_NOTIFY_REPEAT_SEC) * 1000;
+      const last = channel.alertedAt.get(key);
+      if (last !== undefined && now - last < repeatAfterMs) return false;
+    }
+
+    channel.sentAt = channel.sentAt.filter(time => now - time < 60_000);
+    if (channel.sentAt.length >= (config.rateLimitPerMin ?? DEFAULT_NOTIFY_RATE_LIMIT_PER_MIN)) {
+      channel.suppressed++;
+      return false;
+    }
+    channel.sentAt.push(now);
+    // Only an alert that goes out starts the repeat window; a dropped one may be sent next round
+    if (key) {
+      channel.alertedAt.set(key, now);
+    }
+    return true;
+  }
+
+  // Failures are reported once, then not again until the channel recovers
+  private async deliver(channel: Channel, message: NotificationMessage): Promise<void> {
+    try {
+      await channel.notifier.send(message);
+      channel.failing = false;
+    } catch (error) {
+      if (!channel.failing) {
+        channel.failing = true;
+        console.warn(`⚠️  Notification to ${channel.notifier.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Create a dispatcher for the configured channels
+ *
+ * @param env - Supplies TELEGRAM_BOT_TOKEN to Telegram channels without a botToken
+ */
+export function createNotificationDispatcher(configs: NotifierConfig[], env: NodeJS.ProcessEnv = process.env): NotificationDispatcher {
+  return new NotificationDispatcher(configs.map(config => ({ notifier: createNotifier(config, env), config })));
+}
+
+export function createNotifier(config: NotifierConfig, env: NodeJS.ProcessEnv = process.env): Notifier {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookNotifier(config.url!);
+    case 'discord':
+      return new DiscordNotifier(config.url!);
+    case 'telegram': {
+      const botToken = config.botToken ?? env.TELEGRAM_BOT_TOKEN;
+      if (!botToken) {
+        throw new Error('Telegram notifications need a bot token: set botToken or TELEGRAM_BOT_TOKEN');
+      }
+      return new TelegramNotifier(botToken, config.chatId!, config.apiUrl);
+    }
+  }
+}
+
+async function postJson(url: string, body: object): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw new Error(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+/**
+ * Generic webhook: POSTs the rendered text together with the template fields as JSON
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name: string;
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    this.name = `webhook ${new URL(url).host}`;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const { notification } = message;
+    await postJson(this.url, {
+      type: notification.type,
+      severity: notification.severity,
+      obligationId: notification.obligationId,
+      test: notification.test ?? false,
+      title: message.title,
+      text: message.text,
+      fields: message.fields,
+    });
+  }
+}
+
+/**
+ * Telegram Bot API sendMessage to one chat (a user, group or channel)
+ */
+export class TelegramNotifier implements Notifier {
+  readonly name: string;
+  private botToken: string;
+  private chatId: string;
+  private apiUrl: string;
+
+  constructor(botToken: string, chatId: string, apiUrl: string = DEFAULT_TELEGRAM_API_URL) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.name = `telegram chat ${chatId}`;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await postJson(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: `${message.title}\n${message.text}`,
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+const DISCORD_COLORS: Record<NotificationSeverity, number> = { info: 0x3498db, warning: 0xf1c40f, critical: 0xe74c3c };
+
+/**
+ * Discord channel webhook: one embed per message, coloured by severity
+ */
+export class DiscordNotifier implements Notifier {
+  readonly name = 'discord';
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await postJson(this.url, {
+      username: 'sliq',
+      embeds: [{
+        title: message.title,
+        description: message.text,
+        color: DISCORD_COLORS[message.notification.severity],
+      }],
+    });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Itemized liquidation profit estimate
+ *
+ * All values are in USD. Gas is estimated from the transaction shape while ranking
+ * pairs and replaced by the simulated cost once the transaction has been dry-run.
+ */
+
+import type { ProfitBreakdown, ProfitThresholds } from './types.js';
+
+export const DEFAULT_MIN_PROFIT_USD = 0.1;
+export const DEFAULT_MIN_PROFIT_BPS = 0;
+
+// Typical gas of a liquidation, in MIST (oracle updates dominate the base cost)
+const ESTIMATED_GAS_MIST = {
+  base: 30_000_000,
+  flashLoan: 5_000_000,
+  swap: 25_000_000,
+};
+
+const MIST_PER_SUI = 1e9;
+
+export interface ProfitInputs {
+  collateralValueUsd: number;   // Seized collateral at market price
+  repayUsd: number;
+  liquidationDiscount: number;  // Collateral pool's discount for liquidators
+  proceedsUsd: number;          // Quoted swap output, or the collateral value when not swapping
+  flashLoanFeeUsd: number;
+  gasCostMist: number;
+  suiPriceUsd: number;
+}
+
+/**
+ * Gas estimate for a liquidation before it has been simulated
+ */
+export function estimateGasMist(route: { flashLoan: boolean; swap: boolean }): number {
+  return ESTIMATED_GAS_MIST.base
+    + (route.flashLoan ? ESTIMATED_GAS_MIST.flashLoan : 0)
+    + (route.swap ? ESTIMATED_GAS_MIST.swap : 0);
+}
+
+/**
+ * Break the expected profit down into discount earned and costs paid
+ *
+ *   net = discount - slippage - flash loan fee - gas
+ *
+ * where discount = collateral value - repay, and slippage is the collateral value
+ * lost to the swap quote (price impact and pool fees).
+ */
+export function estimateProfit(inputs: ProfitInputs, gasSource: ProfitBreakdown['gasSource'] = 'estimate'): ProfitBreakdown {
+  const discountUsd = inputs.collateralValueUsd - inputs.repayUsd;
+  const slippageUsd = inputs.collateralValueUsd - inputs.proceedsUsd;
+  const gasUsd = (inputs.gasCostMist / MIST_PER_SUI) * inputs.suiPriceUsd;
+  const netProfitUsd = discountUsd - slippageUsd - inputs.flashLoanFeeUsd - gasUsd;
+
+  return {
+    collateralValueUsd: inputs.collateralValueUsd,
+    repayUsd: inputs.repayUsd,
+    liquidationDiscount: inputs.liquidationDiscount,
+    discountUsd,
+    slippageUsd,
+    flashLoanFeeUsd: inputs.flashLoanFeeUsd,
+    gasCostMist: inputs.gasCostMist,
+    gasUsd,
+    gasSource,
+    suiPriceUsd: inputs.suiPriceUsd,
+    netProfitUsd,
+    netProfitBps: inputs.repayUsd > 0 ? (netProfitUsd / inputs.repayUsd) * 10_000 : 0,
+  };
+}
+
+/**
+ * Re-price an estimate with the gas cost reported by a dry run
+ */
+export function withSimulatedGas(profit: ProfitBreakdown, gasCostMist: number): ProfitBreakdown {
+  return estimateProfit({
+    collateralValueUsd: profit.collateralValueUsd,
+    repayUsd: profit.repayUsd,
+    liquidationDiscount: profit.liquidationDiscount,
+    proceedsUsd: profit.collateralValueUsd - profit.slippageUsd,
+    flashLoanFeeUsd: profit.flashLoanFeeUsd,
+    gasCostMist,
+    suiPriceUsd: profit.suiPriceUsd,
+  }, 'simulation');
+}
+
+/**
+ * Profitable = net profit meets both the USD and the basis-point minimum
+ */
+export function isProfitable(profit: ProfitBreakdown, thresholds: ProfitThresholds): boolean {
+  return profit.netProfitUsd >= thresholds.minProfitUsd && profit.netProfitBps >= thresholds.minProfitBps;
+}
@@ -0,0 +1,276 @@
+/**
+ * Fullnode pool - failover, rate limiting and retries for every RPC call
+ *
+ * The Scallop SDK and the liquidator's raw client share one SuiClient whose transport
+ * spreads requests over the configured fullnodes, primary first. Each fullnode has its own
+ * rate limit. Timeouts, HTTP errors and network errors put a fullnode on cooldown and the
+ * request is retried on the next one after an exponential backoff with jitter. JSON-RPC
+ * errors are the node's answer (bad params, object not found, ...) and are passed on as-is.
+ *
+ * Resending a signed transaction is safe: Sui executes a transaction digest at most once.
+ */
+
+import {
+  SuiClient,
+  SuiHTTPTransport,
+  JsonRpcError,
+  getFullnodeUrl,
+  type SuiTransport,
+  type SuiTransportRequestOptions,
+  type SuiTransportSubscribeOptions,
+} from '@mysten/sui/client';
+import type { Metrics } from './metrics.js';
+import type { EndpointProbe, EndpointStats, Settings } from './types.js';
+import { delay } from './utils.js';
+
+export const DEFAULT_RPC_URL = getFullnodeUrl('mainnet');
+export const DEFAULT_RPC_RATE_LIMIT = 10;
+export const DEFAULT_RPC_TIMEOUT_MS = 15_000;
+export const DEFAULT_RPC_MAX_RETRIES = 3;
+
+const DEFAULT_COOLDOWN_MS = 30_000;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+export interface RpcPoolOptions {
+  rateLimit?: number;           // Requests per second, per fullnode (default 10)
+  timeoutMs?: number;           // Per attempt (default 15s)
+  maxRetries?: number;          // Extra attempts after the first (default 3)
+  cooldownMs?: number;          // How long a failing fullnode is skipped (default 30s)
+  retryDelayMs?: number;        // Base of the exponential backoff (default 250ms)
+  metrics?: Metrics;            // Counts and times every request, per fullnode
+}
+
+/**
+ * Token bucket: `rate` requests per second, bursting up to `rate`
+ */
+class RateLimiter {
+  private rate: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(rate: number) {
+    this.rate = rate;
+    this.tokens = rate;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.rate, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+      this.refilledAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await delay(((1 - this.tokens) / this.rate) * 1000);
+    }
+  }
+}
+
+class Endpoint {
+  readonly url: string;
+  readonly transport: SuiHTTPTransport;
+  readonly limiter: RateLimiter;
+  requests = 0;
+  failures = 0;
+  consecutiveFailures = 0;
+  totalLatencyMs = 0;
+  coolingUntil = 0;
+  lastError?: string;
+
+  constructor(url: string, rateLimit: number) {
+    this.url = url;
+    this.transport = new SuiHTTPTransport({ url });
+    this.limiter = new RateLimiter(rateLimit);
+  }
+
+  get healthy(): boolean {
+    return Date.now() >= this.coolingUntil;
+  }
+
+  stats(): EndpointStats {
+    const successes = this.requests - this.failures;
+    return {
+      url: this.url,
+      healthy: this.healthy,
+      requests: this.requests,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      avgLatencyMs: successes > 0 ? this.totalLatencyMs / successes : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+export class RpcPool implements SuiTransport {
+  private endpoints: Endpoint[];
+  private timeoutMs: number;
+  private maxRetries: number;
+  private cooldownMs: number;
+  private retryDelayMs: number;
+  private metrics?: Metrics;
+
+  constructor(urls: string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('RPC pool needs at least one fullnode URL');
+    }
+    // The same node listed twice would only double its share of the rate limit
+    const unique = [...new Set(urls)];
+    this.endpoints = unique.map(url => new Endpoint(url, options.rateLimit ?? DEFAULT_RPC_RATE_LIMIT));
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_RPC_MAX_RETRIES;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.metrics = options.metrics;
+  }
+
+  get primaryUrl(): string {
+    return this.endpoints[0].url;
+  }
+
+  /**
+   * A SuiClient that sends every request through this pool
+   */
+  createClient(): SuiClient {
+    return new SuiClient({ transport: this });
+  }
+
+  async request<T>(input: SuiTransportRequestOptions): Promise<T> {
+    const tried = new Set<Endpoint>();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        // Full jitter: anywhere up to base × 2^attempt, so parallel retries spread out
+        await delay(Math.random() * this.retryDelayMs * Math.pow(2, attempt));
+      }
+
+      const endpoint = this.pick(tried);
+      tried.add(endpoint);
+      try {
+        return await this.send<T>(endpoint, input);
+      } catch (error) {
+        if (!isEndpointFailure(error) || input.signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw new Error(
+      `RPC ${input.method} failed on every fullnode after ${this.maxRetries + 1} attempts: ${describeError(lastError)}`
+    );
+  }
+
+  /**
+   * Subscriptions stay on one fullnode; the liquidator doesn't use them
+   */
+  async subscribe<T>(input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    return this.pick(new Set()).transport.subscribe(input);
+  }
+
+  /**
+   * Ask every fullnode for its latest checkpoint, bypassing failover
+   * A fullnode that answers is taken off cooldown.
+   */
+  async checkHealth(): Promise<EndpointProbe[]> {
+    return Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        const checkpoint = await this.send<string>(endpoint, { method: 'sui_getLatestCheckpointSequenceNumber', params: [] });
+        return { url: endpoint.url, ok: true, latencyMs: Date.now() - startedAt, checkpoint };
+      } catch (error) {
+        return { url: endpoint.url, ok: false, latencyMs: Date.now() - startedAt, error: describeError(error) };
+      }
+    }));
+  }
+
+  /**
+   * Probe fullnodes on cooldown every `intervalMs` so they rejoin as soon as they recover
+   * Returns a function that stops the checks; the timer never keeps the process alive.
+   */
+  startHealthChecks(intervalMs: number): () => void {
+    const timer = setInterval(() => {
+      if (this.endpoints.some(endpoint => !endpoint.healthy)) {
+        void this.checkHealth();
+      }
+    }, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  stats(): EndpointStats[] {
+    return this.endpoints.map(endpoint => endpoint.stats());
+  }
+
+  /**
+   * First healthy fullnode not yet tried for this request, in configured order;
+   * failing that, the one whose cooldown ends first
+   */
+  private pick(tried: Set<Endpoint>): Endpoint {
+    const fresh = this.endpoints.filter(endpoint => !tried.has(endpoint));
+    const candidates = fresh.length > 0 ? fresh : this.endpoints;
+    return candidates.find(endpoint => endpoint.healthy)
+      ?? candidates.reduce((soonest, endpoint) => endpoint.coolingUntil < soonest.coolingUntil ? endpoint : soonest);
+  }
+
+  private async send<T>(endpoint: Endpoint, input: SuiTransportRequestOptions): Promise<T> {
+    await endpoint.limiter.take();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(new Error(`timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    const forwardAbort = () => controller.abort(input.signal?.reason);
+    input.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    endpoint.requests++;
+    const startedAt = Date.now();
+    try {
+      const result = await endpoint.transport.request<T>({ ...input, signal: controller.signal });
+      endpoint.totalLatencyMs += Date.now() - startedAt;
+      this.metrics?.recordRpcRequest(endpoint.url, input.method, 'ok', (Date.now() - startedAt) / 1000);
+      endpoint.consecutiveFailures = 0;
+      endpoint.coolingUntil = 0;
+      return result;
+    } catch (error) {
+      // The node answered, or the caller gave up: not the endpoint's fault
+      if (!isEndpointFailure(error) || input.signal?.aborted) {
+        endpoint.totalLatencyMs += Date.now() - startedAt;
+        this.metrics?.recordRpcRequest(endpoint.url, input.method, input.signal?.aborted ? 'cancelled' : 'rpc_error', (Date.now() - startedAt) / 1000);
+        throw error;
+      }
+      this.metrics?.recordRpcRequest(endpoint.url, input.method, 'failure', (Date.now() - startedAt) / 1000);
+      const failure = controller.signal.aborted && !input.signal?.aborted ? controller.signal.reason : error;
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      endpoint.lastError = describeError(failure);
+      endpoint.coolingUntil = Date.now() + this.cooldownMs;
+      throw failure;
+    } finally {
+      clearTimeout(timeout);
+      input.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
+
+/**
+ * Pool over the configured primary (default: public mainnet RPC) and fallback fullnodes
+ */
+export function createRpcPool(
+  settings: Pick<Settings, 'rpcUrl' | 'rpcFallbackUrls' | 'rpcRateLimit' | 'rpcTimeoutMs' | 'rpcMaxRetries'>,
+  metrics?: Metrics
+): RpcPool {
+  return new RpcPool([settings.rpcUrl ?? DEFAULT_RPC_URL, ...settings.rpcFallbackUrls], {
+    rateLimit: settings.rpcRateLimit,
+    timeoutMs: settings.rpcTimeoutMs,
+    maxRetries: settings.rpcMaxRetries,
+    metrics,
+  });
+}
+
+function isEndpointFailure(error: unknown): boolean {
+  return !(error instanceof JsonRpcError);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,108 @@
+/**
+ * Obligation Scanner - discovers obligations across the Scallop market
+ */
+
+import type { ObligationInfo, EventCursor, ObligationEventPage, ScanEntry, ScanResult } from './types.js';
+import { mapWithConcurrency } from './utils.js';
+
+/**
+ * Where the scanner gets its data from.
+ * ScallopLiquidator implements this; a recorded or local stand-in can be used instead.
+ */
+export interface ObligationSource {
+  queryObligationEvents(cursor: EventCursor | null, limit: number): Promise<ObligationEventPage>;
+  queryObligation(obligationId: string): Promise<ObligationInfo>;
+}
+
+export interface ScanOptions {
+  cursor?: EventCursor | null;
+  pageSize?: number;      // Events per RPC page (Sui caps this at 50)
+  maxPages?: number;      // Stop after this many pages (default: until exhausted)
+  concurrency?: number;   // Obligations queried in parallel
+  onPage?: (entries: ScanEntry[], pageIndex: number, nextCursor: EventCursor | null) => void;
+}
+
+export class ObligationScanner {
+  private source: ObligationSource;
+
+  constructor(source: ObligationSource) {
+    this.source = source;
+  }
+
+  /**
+   * Page through obligation-creation events and query every obligation found
+   */
+  async scan(options: ScanOptions = {}): Promise<ScanResult> {
+    const pageSize = options.pageSize ?? 50;
+    const concurrency = options.concurrency ?? 5;
+    const seen = new Set<string>();
+    const entries: ScanEntry[] = [];
+
+    let cursor = options.cursor ?? null;
+    let hasNextPage = true;
+    let pagesScanned = 0;
+
+    while (hasNextPage && (options.maxPages === undefined || pagesScanned < options.maxPages)) {
+      const page = await this.source.queryObligationEvents(cursor, pageSize);
+
+      const obligationIds = page.obligationIds.filter(id => {
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      });
+
+      const pageEntries = await mapWithConcurrency(obligationIds, concurrency, async (obligationId) => {
+        try {
+          const info = await this.source.queryObligation(obligationId);
+          return { obligationId, info };
+        } catch (error) {
+          return { obligationId, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+
+      entries.push(...pageEntries);
+      options.onPage?.(pageEntries, pagesScanned, page.nextCursor);
+
+      pagesScanned++;
+      hasNextPage = page.hasNextPage && page.nextCursor !== null;
+      // Keep the last cursor when the stream is exhausted, so a later resume picks up new events
+      cursor = page.nextCursor ?? cursor;
+    }
+
+    return {
+      entries,
+      pagesScanned,
+      nextCursor: cursor,
+      hasNextPage,
+    };
+  }
+}
+
+/**
+ * Sort scan entries by risk level (highest first), failed queries last
+ */
+export function sortByRisk(entries: ScanEntry[]): ScanEntry[] {
+  return [...entries].sort((a, b) => {
+    const riskA = a.info?.riskLevel ?? -1;
+    const riskB = b.info?.riskLevel ?? -1;
+    return riskB - riskA;
+  });
+}
+
+/**
+ * Encode an event cursor as "<txDigest>:<eventSeq>" for use on the command line
+ */
+export function encodeCursor(cursor: EventCursor): string {
+  return `${cursor.txDigest}:${cursor.eventSeq}`;
+}
+
+export function decodeCursor(value: string): EventCursor {
+  const separator = value.lastIndexOf(':');
+  if (separator <= 0 || separator === value.length - 1) {
+    throw new Error(`Invalid cursor "${value}". Expected <txDigest>:<eventSeq>.`);
+  }
+  return {
+    txDigest: value.slice(0, separator),
+    eventSeq: value.slice(separator + 1),
+  };
+}
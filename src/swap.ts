@@ -0,0 +1,203 @@
+/**
+ * Swap providers - convert one coin into another inside a liquidation transaction
+ *
+ * Adapters for the Cetus and 7k (Bluefin7k) aggregators, plus an in-memory mock for tests.
+ */
+
+import { AggregatorClient, type RouterDataV3 } from '@cetusprotocol/aggregator-sdk';
+import { getQuote, buildTx, type QuoteResponse } from '@bluefin-exchange/bluefin7k-aggregator-sdk';
+import type { ScallopTxBlock } from '@scallop-io/sui-scallop-sdk';
+import type { SwapQuote, SwapRequest } from './types.js';
+
+// A coin argument inside a programmable transaction (usually a command result)
+export type TxCoin = Parameters<ScallopTxBlock['repayFlashLoan']>[0];
+
+// The aggregator SDKs type coins against their own copy of @mysten/sui
+type CetusCoin = Parameters<AggregatorClient['routerSwap']>[0]['inputCoin'];
+type Bluefin7kCoin = NonNullable<Parameters<typeof buildTx>[0]['extendTx']>['coinIn'];
+
+export interface SwapProvider {
+  readonly name: string;
+
+  /**
+   * Quote swapping `request.amountIn` raw units of one coin into another
+   * Returns null when the provider has no route for the pair
+   */
+  quote(request: SwapRequest, slippageBps: number): Promise<SwapQuote | null>;
+
+  /**
+   * Append the quoted swap to the transaction and return the output coin
+   * The provider enforces `quote.minAmountOut` (or its own equivalent) on-chain.
+   */
+  swap(tx: ScallopTxBlock, quote: SwapQuote, coinIn: TxCoin): Promise<TxCoin>;
+}
+
+export const SWAP_PROVIDERS = ['cetus', '7k'];
+
+/**
+ * Create an aggregator adapter by name
+ *
+ * @param walletAddress - Sender of the swap (required by the 7k router)
+ */
+export function createSwapProvider(name: string, walletAddress: string): SwapProvider {
+  switch (name.toLowerCase()) {
+    case 'cetus':
+      return new CetusSwapProvider();
+    case '7k':
+    case 'bluefin7k':
+      return new Bluefin7kSwapProvider(walletAddress);
+    default:
+      throw new Error(`Unknown swap provider "${name}". Available: ${SWAP_PROVIDERS.join(', ')}`);
+  }
+}
+
+/**
+ * Output floor for a quoted amount after `slippageBps` of slippage
+ */
+export function applySlippage(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * BigInt(10_000 - Math.round(slippageBps))) / 10_000n;
+}
+
+/**
+ * Cetus aggregator (routes across Cetus, DeepBook, Turbos, Kriya, FlowX, Aftermath, ...)
+ */
+export class CetusSwapProvider implements SwapProvider {
+  readonly name = 'cetus';
+  private client: AggregatorClient;
+
+  constructor(client: AggregatorClient = new AggregatorClient({})) {
+    this.client = client;
+  }
+
+  async quote(request: SwapRequest, slippageBps: number): Promise<SwapQuote | null> {
+    const router = await this.client.findRouters({
+      from: request.fromCoinType,
+      target: request.toCoinType,
+      amount: request.amountIn.toString(),
+      byAmountIn: true,
+    });
+    if (!router || router.insufficientLiquidity || router.error || router.paths.length === 0) {
+      return null;
+    }
+
+    const amountOut = BigInt(router.amountOut.toString());
+    const venues = [...new Set(router.paths.map(path => path.provider))].join(', ');
+    return {
+      provider: this.name,
+      fromCoinName: request.fromCoinName,
+      toCoinName: request.toCoinName,
+      amountIn: request.amountIn,
+      amountOut,
+      minAmountOut: applySlippage(amountOut, slippageBps),
+      slippageBps,
+      route: `${request.fromCoinName} → ${request.toCoinName} via Cetus (${venues})`,
+      data: router,
+    };
+  }
+
+  async swap(tx: ScallopTxBlock, quote: SwapQuote, coinIn: TxCoin): Promise<TxCoin> {
+    const coinOut = await this.client.routerSwap({
+      router: quote.data as RouterDataV3,
+      inputCoin: coinIn as CetusCoin,
+      slippage: quote.slippageBps / 10_000,
+      txb: tx.txBlock,
+    });
+    return coinOut as TxCoin;
+  }
+}
+
+/**
+ * 7k aggregator (Bluefin7k)
+ */
+export class Bluefin7kSwapProvider implements SwapProvider {
+  readonly name = '7k';
+  private walletAddress: string;
+
+  constructor(walletAddress: string) {
+    this.walletAddress = walletAddress;
+  }
+
+  async quote(request: SwapRequest, slippageBps: number): Promise<SwapQuote | null> {
+    const response = await getQuote({
+      tokenIn: request.fromCoinType,
+      tokenOut: request.toCoinType,
+      amountIn: request.amountIn.toString(),
+    });
+    if (!response?.routes?.length) {
+      return null;
+    }
+
+    const amountOut = BigInt(response.returnAmountWithDecimal);
+    if (amountOut === 0n) {
+      return null;
+    }
+    return {
+      provider: this.name,
+      fromCoinName: request.fromCoinName,
+      toCoinName: request.toCoinName,
+      amountIn: request.amountIn,
+      amountOut,
+      minAmountOut: applySlippage(amountOut, slippageBps),
+      slippageBps,
+      route: `${request.fromCoinName} → ${request.toCoinName} via 7k (${response.routes.length} route${response.routes.length > 1 ? 's' : ''})`,
+      data: response,
+    };
+  }
+
+  async swap(tx: ScallopTxBlock, quote: SwapQuote, coinIn: TxCoin): Promise<TxCoin> {
+    const { coinOut } = await buildTx({
+      quoteResponse: quote.data as QuoteResponse,
+      accountAddress: this.walletAddress,
+      slippage: quote.slippageBps / 10_000,
+      commission: { partner: this.walletAddress, commissionBps: 0 },
+      extendTx: { tx: tx.txBlock, coinIn: coinIn as Bluefin7kCoin },
+    });
+    if (!coinOut) {
+      throw new Error('7k router returned no output coin');
+    }
+    return coinOut as TxCoin;
+  }
+}
+
+/**
+ * In-memory swap provider for tests
+ *
+ * Quotes from fixed rates and records every swap it is asked to build, but adds no
+ * commands: the input coin is returned unchanged, so it must not be used on-chain.
+ */
+export class MockSwapProvider implements SwapProvider {
+  readonly name = 'mock';
+  readonly swaps: SwapQuote[] = [];
+  private rates: Record<string, number>;
+
+  /**
+   * @param rates - Raw output units per raw input unit, keyed by "from/to" coin names (e.g. "sui/usdc")
+   */
+  constructor(rates: Record<string, number>) {
+    this.rates = rates;
+  }
+
+  async quote(request: SwapRequest, slippageBps: number): Promise<SwapQuote | null> {
+    const rate = this.rates[`${request.fromCoinName}/${request.toCoinName}`];
+    if (rate === undefined) {
+      return null;
+    }
+
+    const amountOut = BigInt(Math.floor(Number(request.amountIn) * rate));
+    return {
+      provider: this.name,
+      fromCoinName: request.fromCoinName,
+      toCoinName: request.toCoinName,
+      amountIn: request.amountIn,
+      amountOut,
+      minAmountOut: applySlippage(amountOut, slippageBps),
+      slippageBps,
+      route: `${request.fromCoinName} → ${request.toCoinName} via mock`,
+    };
+  }
+
+  async swap(_tx: ScallopTxBlock, quote: SwapQuote, coinIn: TxCoin): Promise<TxCoin> {
+    this.swaps.push(quote);
+    return coinIn;
+  }
+}
@@ -2,6 +2,8 @@
  * Type definitions for Scallop Liquidator
  */
 
+import type { LiquidationErrorCode } from './errors.js';
+
 export interface ObligationInfo {
   obligationId: string;
   debts: DebtInfo[];
@@ -10,6 +12,7 @@ export interface ObligationInfo {
   totalBorrowedValueWithWeight: number;
   totalRequiredCollateralValue: number;
   isLiquidatable: boolean;
+  obligationReads?: number; // Obligation and table reads made by a direct chain query (SDK fallback only)
 }
 
 export interface DebtInfo {
@@ -20,6 +23,7 @@ export interface DebtInfo {
   amount: number;         // Raw amount (with decimals, e.g., 1000000 for 1 USDC)
   amountCoin: number;     // Human-readable amount (e.g., 1.0 for 1 USDC)
   valueUsd: number;
+  principalAmount?: number; // Raw amount stored on the obligation, before accrued interest (chain queries only)
 }
 
 export interface CollateralInfo {
@@ -32,16 +36,407 @@ export interface CollateralInfo {
   valueUsd: number;
 }
 
+export interface CoinInfo {
+  coinType: string;       // Normalized full coin type
+  coinName: string;       // SDK-compatible name (e.g., "usdc")
+  symbol: string;         // Display symbol (e.g., "wUSDC")
+  displayName: string;    // Full display name from the coin metadata
+  decimals: number;
+  listed: boolean;        // Whether Scallop has a pool for the coin
+}
+
+export interface RiskModelParams {
+  collateralFactor: number;          // Collateral pool: borrowing power per $ of collateral
+  liquidationFactor: number;         // Collateral pool: liquidation threshold weight
+  liquidationPenalty: number;        // Collateral pool: total penalty charged to the borrower
+  liquidationDiscount: number;       // Collateral pool: share of the penalty paid to the liquidator
+  liquidationReserveFactor: number;  // Collateral pool: share of the penalty kept by the protocol
+  borrowWeight: number;              // Debt pool: weight applied to borrowed value
+}
+
+export type RepayLimit = 'health' | 'debt' | 'collateral' | 'inventory' | 'liquidity' | 'config';
+
+// Where the debt coin used for repayment comes from
+export type LiquidationFunding = 'wallet' | 'flashloan';
+
+export interface RepayCalculation {
+  riskModel: RiskModelParams;
+  maxRepayAmount: bigint;       // Raw debt amount the protocol accepts
+  repayAmount: bigint;          // Raw debt amount we repay (capped by wallet inventory or pool liquidity)
+  repayUsd: number;
+  collateralSeized: bigint;     // Raw collateral amount received
+  collateralSeizedCoin: number; // Human-readable collateral amount received
+  collateralSeizedUsd: number;
+  limitedBy: RepayLimit;        // What capped the repay amount
+  resultingRiskLevel: number;   // Obligation risk level after the liquidation
+}
+
+export interface LiquidationCandidate extends RepayCalculation {
+  debt: DebtInfo;
+  collateral: CollateralInfo;
+  walletBalance: number;        // Raw amount of the debt coin held by our wallet
+  funding: LiquidationFunding;
+  flashLoan?: FlashLoanRoute;   // Set when funding is 'flashloan'
+  fundingNote?: string;         // Why a requested flash loan could not be used
+  swap?: SwapQuote;             // Route the seized collateral is swapped through, if any
+  swapNote?: string;            // Why a requested swap has no route
+  proceedsUsd: number;          // Value we end up with: quoted swap output, or the seized collateral
+  profit: ProfitBreakdown;
+  estimatedProfitUsd: number;   // Net profit (profit.netProfitUsd)
+  profitable: boolean;          // Net profit meets the configured minimums
+}
+
+export interface ProfitBreakdown {
+  collateralValueUsd: number;   // Seized collateral at market price
+  repayUsd: number;             // Debt coin paid in
+  liquidationDiscount: number;  // Collateral pool's discount for liquidators (e.g. 0.05)
+  discountUsd: number;          // Collateral value - repay
+  slippageUsd: number;          // Collateral value lost to the swap quote (0 without a swap)
+  flashLoanFeeUsd: number;
+  gasCostMist: number;
+  gasUsd: number;
+  gasSource: 'estimate' | 'simulation';
+  suiPriceUsd: number;          // SUI price used to value gas
+  netProfitUsd: number;         // Discount - slippage - flash loan fee - gas
+  netProfitBps: number;         // Net profit relative to the repaid value
+}
+
+export interface ProfitThresholds {
+  minProfitUsd: number;
+  minProfitBps: number;
+}
+
+export interface LiquidationPlan extends LiquidationCandidate {
+  candidates: LiquidationCandidate[];  // Every debt × collateral pair, best first
+}
+
+export interface PairSelection {
+  debtCoinName?: string;        // Force this debt coin instead of the best-ranked one
+  collateralCoinName?: string;  // Force this collateral coin instead of the best-ranked one
+}
+
+export interface PlanOptions {
+  flashLoan?: boolean;          // Fund repayment with a Scallop flash loan instead of wallet inventory
+  swapTo?: string;              // Swap seized collateral into this coin ('debt' = the repaid coin)
+}
+
+export interface SwapRequest {
+  fromCoinName: string;
+  fromCoinType: string;
+  toCoinName: string;
+  toCoinType: string;
+  amountIn: bigint;             // Raw input amount
+}
+
+export interface SwapQuote {
+  provider: string;
+  fromCoinName: string;
+  toCoinName: string;
+  amountIn: bigint;             // Raw input amount
+  amountOut: bigint;            // Raw expected output amount
+  minAmountOut: bigint;         // Raw output floor after slippage; the transaction aborts below it
+  slippageBps: number;
+  route: string;                // Human-readable route, e.g. "sui → usdc via Cetus"
+  data?: unknown;               // Provider-specific route data passed back to swap()
+}
+
+export interface FlashLoanRoute {
+  feeRate: number;              // Fraction of the loan charged as fee (e.g. 0.0005)
+  fee: bigint;                  // Raw debt amount owed on top of the loan
+  swap: SwapQuote | null;       // Collateral → debt swap; null when both are the same coin
+}
+
+export interface BalanceChange {
+  coinType: string;
+  amount: string;         // Signed raw amount (negative = spent)
+}
+
+export interface SimulationResult {
+  success: boolean;
+  error?: string;         // Execution error reported by the dry run (e.g. a MoveAbort)
+  gasCostMist: number;    // Computation + storage - rebate, in MIST
+  balanceChanges: BalanceChange[];  // Predicted changes for our wallet
+}
+
+// What an executed transaction actually did, read back from its effects
+export interface ExecutionEffects {
+  gasCostMist: number;    // Gas paid; a bundled liquidation's even share
+  balanceChanges: BalanceChange[];  // Actual changes to our wallet; a bundle's cover the whole transaction
+  realisedProfitUsd: number | null;  // Balance changes at current prices; null when a coin has no price
+}
+
+export interface ExecutionOptions {
+  simulateOnly?: boolean; // Dry-run only, never sign or submit
+  flashLoan?: boolean;    // Borrow the repay coin via flash loan and repay it from the seized collateral
+  swapTo?: string;        // Swap seized collateral into this coin ('debt' = the repaid coin)
+  profit?: ProfitBreakdown;  // Planned profit: re-priced with the simulated gas and re-checked before signing
+  exportUnsigned?: boolean;  // Stop before signing and return the transaction for an external signer
+}
+
+// A transaction built for our wallet address but left for someone else to sign
+export interface UnsignedTransaction {
+  txBytes: string;        // Base64 BCS transaction data; this is what gets signed
+  digest: string;
+  sender: string;
+}
+
+// A coin held by the wallet
+export interface WalletBalance {
+  coinType: string;
+  coinName?: string;      // Scallop pool name, when Scallop lists the coin
+  symbol: string;         // The type's struct name when the coin has no metadata
+  decimals: number;       // 0 when the coin has no metadata, leaving amounts raw
+  balance: string;        // Raw amount
+}
+
+// One coin a transaction will draw from the wallet
+export interface BalanceCheck {
+  coinType: string;       // Exact type; a look-alike (native USDC for wUSDC) doesn't count
+  symbol: string;
+  decimals: number;
+  required: string;       // Raw amount; for SUI this includes the estimated gas
+  balance: string;        // Raw amount the wallet holds
+  sufficient: boolean;
+}
+
+// Whether the wallet can fund a transaction, checked before anything is built
+export interface WalletPreflight {
+  ok: boolean;
+  checks: BalanceCheck[];  // The repay coin(s), then SUI for gas
+  gasMist: number;         // Estimated gas included in the SUI check
+  problems: string[];      // One line per shortfall
+}
+
+export interface LiquidationRequest {
+  obligationId: string;
+  debtCoinName: string;
+  collateralCoinName: string;
+  repayAmount: bigint;
+  flashLoan?: boolean;
+  profit?: ProfitBreakdown;  // Re-checked with this liquidation's share of the simulated gas
+}
+
+export interface BundleOptions {
+  simulateOnly?: boolean;
+  swapTo?: string;
+  maxCallsPerTx?: number;  // Liquidations per transaction (default 8)
+}
+
+export interface BundledLiquidationResult extends LiquidationResult {
+  obligationId: string;
+  bundled: boolean;        // Sent together with other liquidations in one transaction
+}
+
 export interface LiquidationResult {
   success: boolean;
+  simulated?: boolean;    // True when only a dry run was performed
+  funding?: LiquidationFunding;
+  fallbackReason?: string;  // Why a requested flash loan fell back to wallet funding
+  swap?: SwapQuote;         // Route the seized collateral was swapped through
+  swapSkippedReason?: string;  // Why a requested swap was skipped (collateral kept as is)
+  unsigned?: UnsignedTransaction;  // exportUnsigned: the simulated transaction, not yet signed
   txDigest?: string;
-  repaidAmount?: string;
-  collateralReceived?: string;
+  repaidAmount?: string;   // Raw debt repaid; once executed, what the protocol actually took
+  collateralReceived?: string;  // Raw collateral seized, read from the executed transaction
+  refundAmount?: string;  // Raw debt coin handed back when the protocol took less than requested
+  effects?: ExecutionEffects;  // Set once the transaction has executed
   error?: string;
+  errorCode?: LiquidationErrorCode;  // Branch on this, not on `error`
+  abort?: MoveAbortInfo;     // Decoded when the failure was a Move abort
+  preflight?: WalletPreflight;  // Set when the wallet can't fund the transaction
+  simulation?: SimulationResult;
+  profit?: ProfitBreakdown;  // Planned profit re-priced with the simulated gas
 }
 
-export interface Config {
-  privateKey: string;
-  rpcUrl?: string;
+export interface MoveAbortInfo {
+  address: string;        // Package of the aborting module
+  module: string;
+  functionName?: string;
+  code: number;
+  command?: number;       // Index of the transaction command that aborted
+}
+
+// Liquidation policy: set in sliq.config.json (or a profile), env vars and CLI flags
+export interface Settings {
+  rpcUrl?: string;                    // Primary fullnode (default: the public mainnet RPC)
+  rpcFallbackUrls: string[];          // Tried in order when the primary fails or times out
+  rpcRateLimit: number;               // Requests per second, per fullnode
+  rpcTimeoutMs: number;               // Per attempt
+  rpcMaxRetries: number;              // Extra attempts after the first, across fullnodes
+  minProfitUsd: number;
+  minProfitBps: number;
+  slippageBps: number;
+  maxRepay: Record<string, number>;   // Cap per debt coin, in whole coins (e.g. { "usdc": 1000 })
+  allowCoins?: string[];              // Only liquidate pairs whose debt and collateral are both listed
+  denyCoins: string[];                // Never liquidate pairs involving these coins
+  concurrency: number;                // Parallel obligation queries (scan, batch, watch)
+  intervalSec: number;                // Watch: seconds between polls
+  maxBackoffSec: number;              // Watch: longest wait after repeated failures
+  scanMinRisk: number;                // Watch --scan: minimum risk level to track, in percent
+  maxCallsPerTx: number;              // --bundle: liquidations per transaction
+  journalPath: string;                // JSONL journal of checks and attempts; empty turns it off
+  notifications: NotifierConfig[];    // Alert channels (webhook, Telegram, Discord); empty sends nothing
+  metricsPort: number;                // Watch: serve Prometheus metrics on this port; 0 turns it off
+  metricsHost: string;                // Watch: address the metrics server listens on
+}
+
+// Where the signing key came from; 'watch-only' when there is none
+export type KeySource = 'private-key' | 'keystore' | 'mnemonic' | 'watch-only';
+
+// What the liquidator may do with the wallet
+//   sign   a key is loaded: balances are read, transactions are signed and sent
+//   read   watch-only with an address: balances are read, transactions are only simulated
+//   none   watch-only without an address: no balances, transactions are only simulated
+export type WalletAccess = 'sign' | 'read' | 'none';
+
+export interface Config extends Settings {
+  keySource: KeySource;
+  wallet: WalletAccess;
+  secretKey?: string;           // Bech32 Ed25519 key; absent when watch-only
+  walletAddress?: string;       // The key's address, or the watch-only --address
   networkType: 'mainnet';
+  configPath?: string;          // Config file the settings were read from, if any
+  profile?: string;             // Profile applied on top of the file's top-level settings
+}
+
+// One fullnode of the RPC pool, as seen by the requests sent through it
+export interface EndpointStats {
+  url: string;
+  healthy: boolean;             // False while cooling down after a failure
+  requests: number;
+  failures: number;             // Timeouts, HTTP errors and network errors (not JSON-RPC errors)
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;  // Of successful requests
+  lastError?: string;
+}
+
+export interface EndpointProbe {
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  checkpoint?: string;          // Latest checkpoint the node reports
+  error?: string;
+}
+
+export interface EventCursor {
+  txDigest: string;
+  eventSeq: string;
+}
+
+export interface ObligationEventPage {
+  obligationIds: string[];
+  nextCursor: EventCursor | null;
+  hasNextPage: boolean;
+}
+
+export interface ScanEntry {
+  obligationId: string;
+  info?: ObligationInfo;
+  error?: string;
+}
+
+export interface ScanResult {
+  entries: ScanEntry[];
+  pagesScanned: number;
+  nextCursor: EventCursor | null;
+  hasNextPage: boolean;
+}
+
+export type WatchState = 'unknown' | 'healthy' | 'liquidatable' | 'bad_debt' | 'error';
+
+export interface WatchEvent {
+  timestamp: string;      // ISO 8601
+  type:
+    | 'tracked'
+    | 'state_change'
+    | 'query_error'
+    | 'plan_error'
+    | 'execution_skipped'
+    | 'execution_started'
+    | 'execution_succeeded'
+    | 'execution_failed'
+    | 'stopping'
+    | 'stopped';
+  obligationId?: string;
+  from?: WatchState;
+  to?: WatchState;
+  riskLevel?: number;
+  estimatedProfitUsd?: number;
+  txDigest?: string;
+  realisedProfitUsd?: number;  // execution_succeeded: read from the executed transaction
+  error?: string;
+  errorCode?: LiquidationErrorCode;
+  retryInMs?: number;
+  inFlight?: number;
+}
+
+// Outcome of a journaled check or attempt; attempts use the CLI's statuses
+export type JournalOutcome =
+  | 'liquidatable'
+  | 'not_liquidatable'
+  | 'simulated'
+  | 'exported'
+  | 'succeeded'
+  | 'not_profitable'
+  | 'failed';
+
+// One line of the liquidation journal
+export interface JournalEntry {
+  time: string;           // ISO 8601
+  kind: 'check' | 'liquidate' | 'repay' | 'submit';
+  outcome: JournalOutcome;
+  obligationId: string;
+  riskLevel?: number;     // Checks only
+  debtCoinName?: string;
+  collateralCoinName?: string;
+  repayAmount?: string;   // Raw debt amount
+  funding?: LiquidationFunding;
+  estimatedProfitUsd?: number;  // Planned, before the dry run
+  bundled?: boolean;
+  txDigest?: string;
+  errorCode?: LiquidationErrorCode;
+  error?: string;
+  abort?: MoveAbortInfo;
+  collateralReceived?: string;  // Raw collateral seized, once executed
+  refundAmount?: string;
+  gasCostMist?: number;   // Gas paid once executed, else simulated (a bundled liquidation's share)
+  profitUsd?: number;     // Realised net profit once executed, else re-priced with the simulated gas
+  balanceChanges?: BalanceChange[];  // Proceeds: the changes to our wallet, actual once executed
+}
+
+export type NotificationType = 'liquidatable' | 'bad_debt' | 'liquidation_succeeded' | 'liquidation_failed';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+// One alert channel under `notifications` in sliq.config.json
+export interface NotifierConfig {
+  type: 'webhook' | 'telegram' | 'discord';
+  url?: string;                 // webhook / discord: where to POST
+  botToken?: string;            // telegram (default: TELEGRAM_BOT_TOKEN)
+  chatId?: string;              // telegram
+  apiUrl?: string;              // telegram: Bot API base (default https://api.telegram.org)
+  events?: NotificationType[];  // Default: every type
+  minSeverity?: NotificationSeverity;  // Default 'info'
+  rateLimitPerMin?: number;     // Default 20; further notifications are dropped and counted
+  repeatAfterSec?: number;      // Obligation alerts repeat for the same obligation after this long (default 3600)
+  templates?: Partial<Record<NotificationType, string>>;  // {placeholder} text replacing the built-in message
+}
+
+// A journaled attempt as it is reported in a notification
+export interface NotifiedAttempt {
+  kind: 'liquidate' | 'repay' | 'submit';
+  debtCoin: CoinInfo;
+  collateralCoin?: CoinInfo;    // Liquidations only
+  repayAmount: string;          // Raw amount requested
+  estimatedProfitUsd?: number;
+  result: LiquidationResult;
+}
+
+export interface Notification {
+  type: NotificationType;
+  severity: NotificationSeverity;
+  obligationId: string;
+  obligation?: ObligationInfo;  // liquidatable / bad_debt
+  attempt?: NotifiedAttempt;    // liquidation_succeeded / liquidation_failed
+  test?: boolean;               // A sample sent by `sliq notify`
 }
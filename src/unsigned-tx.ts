@@ -0,0 +1,86 @@
+/**
+ * Unsigned transaction files - hand a built liquidation to an external signer and back
+ *
+ * `--export-unsigned` writes the transaction bytes with what they do; a multisig or hardware
+ * wallet signs the bytes elsewhere and `sliq submit` broadcasts them with the signatures.
+ * The file carries its digest so a signature made over different bytes is caught before sending.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { TransactionDataBuilder } from '@mysten/sui/transactions';
+import { fromBase64 } from '@mysten/sui/utils';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import type { ProfitBreakdown, SimulationResult, UnsignedTransaction } from './types.js';
+
+// Bump when a field is renamed or removed; adding fields keeps the version
+export const UNSIGNED_TX_VERSION = 1;
+
+export interface UnsignedTxFile extends UnsignedTransaction {
+  schemaVersion: number;
+  kind: 'liquidate' | 'repay';   // Liquidation, or bad-debt repayment
+  createdAt: string;
+  obligationId: string;
+  debtCoinName: string;
+  collateralCoinName?: string;   // Liquidations only
+  repayAmount: string;           // Raw amount of the debt coin
+  summary: string[];             // What the transaction does, for whoever signs it
+  simulation: SimulationResult;
+  profit?: ProfitBreakdown;      // Re-priced with the simulated gas
+}
+
+export interface SignatureCheck {
+  signature: string;
+  signer?: string;               // Address the signature recovers to
+  error?: string;
+}
+
+export function writeUnsignedTx(path: string, file: UnsignedTxFile): void {
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+}
+
+/**
+ * Read and check an exported transaction; throws if it is malformed or its bytes don't match its digest
+ */
+export function readUnsignedTx(path: string): UnsignedTxFile {
+  let file: Partial<UnsignedTxFile>;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (file.schemaVersion !== UNSIGNED_TX_VERSION) {
+    throw new Error(`${path} is not an unsigned transaction file (version ${UNSIGNED_TX_VERSION}); export it with --export-unsigned`);
+  }
+  for (const field of ['txBytes', 'digest', 'sender', 'obligationId', 'debtCoinName', 'repayAmount'] as const) {
+    if (typeof file[field] !== 'string') {
+      throw new Error(`${path} is missing ${field}`);
+    }
+  }
+
+  const digest = transactionDigest(file.txBytes!);
+  if (digest !== file.digest) {
+    throw new Error(`${path} has been modified: its transaction bytes hash to ${digest}, not ${file.digest}`);
+  }
+  return file as UnsignedTxFile;
+}
+
+export function transactionDigest(txBytes: string): string {
+  return TransactionDataBuilder.getDigestFromBytes(fromBase64(txBytes));
+}
+
+/**
+ * Recover the signer of each signature over the transaction bytes
+ * Multisig signatures recover to the multisig address.
+ */
+export async function checkSignatures(tx: UnsignedTransaction, signatures: string[]): Promise<SignatureCheck[]> {
+  const bytes = fromBase64(tx.txBytes);
+  return Promise.all(signatures.map(async signature => {
+    try {
+      const publicKey = await verifyTransactionSignature(bytes, signature);
+      return { signature, signer: publicKey.toSuiAddress() };
+    } catch (error) {
+      return { signature, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
@@ -0,0 +1,330 @@
+/**
+ * Obligation Watcher - keeps obligations under continuous observation
+ * and liquidates them automatically once they become profitable
+ */
+
+import { isBadDebt } from './liquidator.js';
+import { LiquidationErrorCode } from './errors.js';
+import type {
+  ObligationInfo,
+  LiquidationPlan,
+  LiquidationResult,
+  PairSelection,
+  PlanOptions,
+  ExecutionOptions,
+  LiquidationRequest,
+  BundleOptions,
+  BundledLiquidationResult,
+  WatchEvent,
+  WatchState,
+} from './types.js';
+import { mapWithConcurrency } from './utils.js';
+
+/**
+ * The subset of ScallopLiquidator the watcher relies on
+ */
+export interface WatchTarget {
+  queryObligation(obligationId: string): Promise<ObligationInfo>;
+  planLiquidation(obligationInfo: ObligationInfo, selection?: PairSelection, options?: PlanOptions): Promise<LiquidationPlan | null>;
+  liquidate(
+    obligationId: string,
+    debtCoinName: string,
+    collateralCoinName: string,
+    repayAmount: bigint,
+    options?: ExecutionOptions
+  ): Promise<LiquidationResult>;
+  liquidateMany(requests: LiquidationRequest[], options?: BundleOptions): Promise<BundledLiquidationResult[]>;
+}
+
+export interface WatcherOptions {
+  intervalMs: number;     // Delay between polling rounds
+  autoExecute: boolean;   // false = observe and log only
+  flashLoan: boolean;     // Fund executions with flash loans where a route exists
+  swapTo?: string;        // Unwind seized collateral into this coin ('debt' = the repaid coin)
+  concurrency: number;    // Obligations queried in parallel per round
+  maxBackoffMs: number;   // Upper bound for retry delay after errors
+  bundle?: boolean;       // Send each round's liquidations together in as few transactions as possible
+  maxCallsPerTx?: number; // Liquidations per bundled transaction
+  onEvent: (event: WatchEvent) => void;
+}
+
+interface TrackedObligation {
+  state: WatchState;
+  failures: number;       // Consecutive query or execution failures
+  nextCheckAt: number;    // Epoch ms; 0 = check on the next round
+}
+
+type WatchEventInput = Omit<WatchEvent, 'timestamp'>;
+
+export class ObligationWatcher {
+  private target: WatchTarget;
+  private options: WatcherOptions;
+  private tracked = new Map<string, TrackedObligation>();
+  private executions = new Map<string, Promise<void>>();
+  private roundPlans = new Map<string, LiquidationPlan>();   // --bundle: liquidations found this round
+  private stopped = false;
+  private wake?: () => void;
+
+  constructor(target: WatchTarget, options: WatcherOptions) {
+    this.target = target;
+    this.options = options;
+  }
+
+  /**
+   * Start observing obligations (already-tracked IDs are ignored)
+   */
+  track(obligationIds: string[]): void {
+    for (const obligationId of obligationIds) {
+      if (this.tracked.has(obligationId)) continue;
+      this.tracked.set(obligationId, { state: 'unknown', failures: 0, nextCheckAt: 0 });
+      this.emit({ type: 'tracked', obligationId });
+    }
+  }
+
+  get size(): number {
+    return this.tracked.size;
+  }
+
+  /**
+   * Tracked obligations by their last known state
+   */
+  countByState(): Record<WatchState, number> {
+    const counts: Record<WatchState, number> = { unknown: 0, healthy: 0, liquidatable: 0, bad_debt: 0, error: 0 };
+    for (const tracked of this.tracked.values()) {
+      counts[tracked.state]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Poll until stop() is called, then wait for in-flight transactions to settle
+   */
+  async run(): Promise<void> {
+    while (!this.stopped) {
+      await this.poll();
+      if (this.stopped) break;
+      await this.sleep(this.options.intervalMs);
+    }
+
+    this.emit({ type: 'stopping', inFlight: this.executions.size });
+    await Promise.allSettled(this.executions.values());
+    this.emit({ type: 'stopped' });
+  }
+
+  /**
+   * Request a graceful shutdown; run() resolves once in-flight work is done
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  /**
+   * Run a single polling round over every obligation that is due
+   */
+  async poll(): Promise<void> {
+    const now = Date.now();
+    const due = [...this.tracked.entries()]
+      .filter(([obligationId, tracked]) => tracked.nextCheckAt <= now && !this.executions.has(obligationId))
+      .map(([obligationId]) => obligationId);
+
+    await mapWithConcurrency(due, this.options.concurrency, async (obligationId) => {
+      if (!this.stopped) {
+        await this.check(obligationId);
+      }
+    });
+
+    const plans = new Map(this.roundPlans);
+    this.roundPlans.clear();
+    if (plans.size > 0 && !this.stopped) {
+      const execution = this.executeBundle(plans).finally(() => {
+        for (const obligationId of plans.keys()) {
+          this.executions.delete(obligationId);
+        }
+      });
+      for (const obligationId of plans.keys()) {
+        this.executions.set(obligationId, execution);
+      }
+    }
+  }
+
+  private async check(obligationId: string): Promise<void> {
+    const tracked = this.tracked.get(obligationId);
+    if (!tracked) return;
+
+    let info: ObligationInfo;
+    try {
+      info = await this.target.queryObligation(obligationId);
+    } catch (error) {
+      const retryInMs = this.backoff(tracked);
+      this.transition(obligationId, tracked, 'error');
+      this.emit({ type: 'query_error', obligationId, error: error instanceof Error ? error.message : String(error), retryInMs });
+      return;
+    }
+
+    tracked.failures = 0;
+    tracked.nextCheckAt = 0;
+
+    const state: WatchState = isBadDebt(info) ? 'bad_debt' : info.isLiquidatable ? 'liquidatable' : 'healthy';
+    const changed = this.transition(obligationId, tracked, state, info.riskLevel);
+
+    if (state === 'liquidatable' && this.options.autoExecute) {
+      await this.maybeExecute(obligationId, info, changed);
+    }
+  }
+
+  private async maybeExecute(obligationId: string, info: ObligationInfo, justBecameLiquidatable: boolean): Promise<void> {
+    // De-duplicate: never fire a second transaction while one is in flight
+    if (this.executions.has(obligationId) || this.stopped) return;
+
+    const tracked = this.tracked.get(obligationId);
+    if (!tracked) return;
+
+    let plan: LiquidationPlan | null;
+    try {
+      plan = await this.target.planLiquidation(info, {}, {
+        flashLoan: this.options.flashLoan,
+        swapTo: this.options.swapTo,
+      });
+    } catch (error) {
+      // Market or quote reads can fail like any other RPC call; retry this obligation later
+      const retryInMs = this.backoff(tracked);
+      this.transition(obligationId, tracked, 'error');
+      this.emit({ type: 'plan_error', obligationId, error: error instanceof Error ? error.message : String(error), retryInMs });
+      return;
+    }
+    // The liquidator's minimum profit decides; it is checked again against the simulated gas
+    if (!plan || !plan.profitable) {
+      // Re-evaluated every round; only log when the obligation first becomes liquidatable
+      if (justBecameLiquidatable) {
+        this.emit({
+          type: 'execution_skipped',
+          obligationId,
+          riskLevel: info.riskLevel,
+          estimatedProfitUsd: plan?.estimatedProfitUsd,
+          error: plan
+            ? `Net profit $${plan.estimatedProfitUsd.toFixed(2)} (${plan.profit.netProfitBps.toFixed(0)} bps) below the minimum`
+            : 'No debt/collateral pair to liquidate',
+        });
+      }
+      return;
+    }
+
+    if (this.options.bundle) {
+      this.roundPlans.set(obligationId, plan);
+      return;
+    }
+
+    const execution = this.execute(obligationId, plan).finally(() => {
+      this.executions.delete(obligationId);
+    });
+    this.executions.set(obligationId, execution);
+  }
+
+  private async execute(obligationId: string, plan: LiquidationPlan): Promise<void> {
+    const tracked = this.tracked.get(obligationId);
+    if (!tracked) return;
+
+    this.emit({ type: 'execution_started', obligationId, estimatedProfitUsd: plan.estimatedProfitUsd });
+
+    let result: LiquidationResult;
+    try {
+      result = await this.target.liquidate(obligationId, plan.debt.coinName, plan.collateral.coinName, plan.repayAmount, {
+        flashLoan: plan.funding === 'flashloan',
+        swapTo: this.options.swapTo,
+        profit: plan.profit,
+      });
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this.settle(obligationId, tracked, result);
+  }
+
+  /**
+   * Liquidate every obligation found liquidatable this round in as few transactions as possible
+   */
+  private async executeBundle(plans: Map<string, LiquidationPlan>): Promise<void> {
+    const requests: LiquidationRequest[] = [];
+    for (const [obligationId, plan] of plans) {
+      this.emit({ type: 'execution_started', obligationId, estimatedProfitUsd: plan.estimatedProfitUsd });
+      requests.push({
+        obligationId,
+        debtCoinName: plan.debt.coinName,
+        collateralCoinName: plan.collateral.coinName,
+        repayAmount: plan.repayAmount,
+        flashLoan: plan.funding === 'flashloan',
+        profit: plan.profit,
+      });
+    }
+
+    let results: LiquidationResult[];
+    try {
+      results = await this.target.liquidateMany(requests, {
+        swapTo: this.options.swapTo,
+        maxCallsPerTx: this.options.maxCallsPerTx,
+      });
+    } catch (error) {
+      const failure: LiquidationResult = { success: false, error: error instanceof Error ? error.message : String(error) };
+      results = requests.map(() => failure);
+    }
+
+    for (const [i, request] of requests.entries()) {
+      const tracked = this.tracked.get(request.obligationId);
+      if (tracked) {
+        this.settle(request.obligationId, tracked, results[i]);
+      }
+    }
+  }
+
+  private settle(obligationId: string, tracked: TrackedObligation, result: LiquidationResult): void {
+    if (result.success) {
+      tracked.failures = 0;
+      tracked.nextCheckAt = 0;
+      this.emit({
+        type: 'execution_succeeded',
+        obligationId,
+        txDigest: result.txDigest,
+        realisedProfitUsd: result.effects?.realisedProfitUsd ?? undefined,
+      });
+    } else {
+      // A locked obligation stays locked until its owner unstakes; no point retrying soon
+      const retryInMs = this.backoff(tracked, result.errorCode === LiquidationErrorCode.ObligationLocked);
+      this.emit({ type: 'execution_failed', obligationId, error: result.error, errorCode: result.errorCode, retryInMs });
+    }
+  }
+
+  /**
+   * Record a failure and schedule the next check with exponential backoff
+   */
+  private backoff(tracked: TrackedObligation, longest = false): number {
+    tracked.failures++;
+    const retryInMs = longest
+      ? this.options.maxBackoffMs
+      : Math.min(this.options.intervalMs * 2 ** tracked.failures, this.options.maxBackoffMs);
+    tracked.nextCheckAt = Date.now() + retryInMs;
+    return retryInMs;
+  }
+
+  private transition(obligationId: string, tracked: TrackedObligation, state: WatchState, riskLevel?: number): boolean {
+    if (tracked.state === state) return false;
+
+    this.emit({ type: 'state_change', obligationId, from: tracked.state, to: state, riskLevel });
+    tracked.state = state;
+    return true;
+  }
+
+  private emit(event: WatchEventInput): void {
+    this.options.onEvent({ timestamp: new Date().toISOString(), ...event });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
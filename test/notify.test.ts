@@ -0,0 +1,139 @@
+/**
+ * Notification checks: channels post to a local HTTP stand-in for webhook, Telegram and Discord
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createNotificationDispatcher, flushNotifications, renderNotification } from '../src/notify.js';
+import type { Notification, NotifierConfig } from '../src/types.js';
+
+type Request = { path: string; body: Record<string, unknown> };
+
+let server: Server;
+let baseUrl: string;
+const requests: Request[] = [];
+
+before(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      requests.push({ path: request.url ?? '', body: JSON.parse(body) });
+      if (request.url === '/down') {
+        response.writeHead(503).end('maintenance');
+      } else {
+        response.writeHead(200, { 'content-type': 'application/json' }).end('{"ok":true}');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function liquidatable(obligationId: string): Notification {
+  return {
+    type: 'liquidatable',
+    severity: 'warning',
+    obligationId,
+    obligation: {
+      obligationId,
+      debts: [{ coinType: '0x2::sui::SUI', coinName: 'sui', coinSymbol: 'SUI', coinDisplayName: 'Sui', amount: 5e9, amountCoin: 5, valueUsd: 16.5 }],
+      collaterals: [],
+      riskLevel: 1.05,
+      totalBorrowedValueWithWeight: 16.5,
+      totalRequiredCollateralValue: 15,
+      isLiquidatable: true,
+    },
+  };
+}
+
+async function send(configs: NotifierConfig[], notifications: Notification[]): Promise<Request[]> {
+  requests.length = 0;
+  const dispatcher = createNotificationDispatcher(configs, {});
+  for (const notification of notifications) {
+    dispatcher.notify(notification);
+  }
+  await flushNotifications();
+  return [...requests];
+}
+
+test('every channel posts its own payload', async () => {
+  const sent = await send([
+    { type: 'webhook', url: `${baseUrl}/hook` },
+    { type: 'telegram', botToken: 'TOKEN', chatId: '42', apiUrl: `${baseUrl}/tg/` },
+    { type: 'discord', url: `${baseUrl}/discord` },
+  ], [liquidatable('0x' + 'a'.repeat(64))]);
+
+  const byPath = Object.fromEntries(sent.map(request => [request.path, request.body]));
+  assert.deepEqual(Object.keys(byPath).sort(), ['/discord', '/hook', '/tg/botTOKEN/sendMessage']);
+
+  assert.equal(byPath['/hook'].type, 'liquidatable');
+  assert.equal((byPath['/hook'].fields as Record<string, string>).riskLevel, '105.00%');
+  assert.match(byPath['/hook'].text as string, /^Obligation 0xaaaa…aaaa is liquidatable at 105\.00% risk/);
+
+  assert.equal(byPath['/tg/botTOKEN/sendMessage'].chat_id, '42');
+  assert.match(byPath['/tg/botTOKEN/sendMessage'].text as string, /^⚠️ Liquidatable obligation\n/);
+
+  const [embed] = byPath['/discord'].embeds as Array<Record<string, unknown>>;
+  assert.equal(embed.title, '⚠️ Liquidatable obligation');
+});
+
+test('filters drop events a channel did not ask for', async () => {
+  const sent = await send([
+    { type: 'webhook', url: `${baseUrl}/bad-debt-only`, events: ['bad_debt'] },
+    { type: 'webhook', url: `${baseUrl}/critical-only`, minSeverity: 'critical' },
+    { type: 'webhook', url: `${baseUrl}/all` },
+  ], [liquidatable('0x' + 'b'.repeat(64))]);
+
+  assert.deepEqual(sent.map(request => request.path), ['/all']);
+});
+
+test('an obligation alert repeats only after repeatAfterSec, and a rate-limited one does not start the window', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  try {
+    const requestsFor = (path: string) => requests.filter(request => request.path === path).length;
+    const dispatcher = createNotificationDispatcher([{ type: 'webhook', url: `${baseUrl}/limited`, rateLimitPerMin: 1, repeatAfterSec: 600 }], {});
+    requests.length = 0;
+
+    dispatcher.notify(liquidatable('0x' + 'c'.repeat(64)));
+    dispatcher.notify(liquidatable('0x' + 'd'.repeat(64)));   // Over the rate limit: dropped
+    await flushNotifications();
+    assert.equal(requestsFor('/limited'), 1);
+
+    mock.timers.tick(61_000);
+    dispatcher.notify(liquidatable('0x' + 'c'.repeat(64)));   // Within the repeat window: skipped
+    dispatcher.notify(liquidatable('0x' + 'd'.repeat(64)));   // Was dropped, so goes out now
+    await flushNotifications();
+    assert.equal(requestsFor('/limited'), 2);
+    assert.match(requests[1].body.text as string, /0xdddd…dddd/);
+    assert.match(requests[1].body.text as string, /\(1 earlier notification dropped by the rate limit\)$/);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('test sends report HTTP errors per channel', async () => {
+  requests.length = 0;
+  const dispatcher = createNotificationDispatcher([
+    { type: 'webhook', url: `${baseUrl}/down` },
+    { type: 'webhook', url: `${baseUrl}/up` },
+  ], {});
+  const results = await dispatcher.test(liquidatable('0x' + 'e'.repeat(64)));
+
+  assert.equal(results[0].error, 'HTTP 503: maintenance');
+  assert.equal(results[1].error, undefined);
+});
+
+test('lines whose placeholders all render as "-" are dropped', () => {
+  const message = renderNotification(
+    liquidatable('0x' + 'f'.repeat(64)),
+    'Risk {riskLevel}\nTx {txUrl}\nProfit {realisedProfitUsd} (estimated {estimatedProfitUsd})\nError {error} at {riskLevel}\nNo placeholders'
+  );
+  assert.equal(message.text, 'Risk 105.00%\nError - at 105.00%\nNo placeholders');
+});
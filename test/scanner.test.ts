@@ -0,0 +1,104 @@
+/**
+ * Scanner checks against an in-memory ObligationSource
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObligationScanner, sortByRisk, encodeCursor, decodeCursor, type ObligationSource } from '../src/scanner.js';
+import type { EventCursor, ObligationEventPage, ObligationInfo } from '../src/types.js';
+
+function obligation(obligationId: string, riskLevel: number): ObligationInfo {
+  return {
+    obligationId,
+    debts: [],
+    collaterals: [],
+    riskLevel,
+    totalBorrowedValueWithWeight: 0,
+    totalRequiredCollateralValue: 0,
+    isLiquidatable: riskLevel >= 1,
+  };
+}
+
+/**
+ * Serves fixed event pages; `failing` obligations throw like a dropped RPC call would
+ */
+class FakeSource implements ObligationSource {
+  eventQueries: (EventCursor | null)[] = [];
+  private pages: string[][];
+  private risks: Record<string, number>;
+  private failing: Set<string>;
+
+  constructor(pages: string[][], risks: Record<string, number>, failing: string[] = []) {
+    this.pages = pages;
+    this.risks = risks;
+    this.failing = new Set(failing);
+  }
+
+  async queryObligationEvents(cursor: EventCursor | null, limit: number): Promise<ObligationEventPage> {
+    this.eventQueries.push(cursor);
+    const index = cursor ? Number(cursor.eventSeq) : 0;
+    const hasNextPage = index + 1 < this.pages.length;
+    return {
+      obligationIds: this.pages[index].slice(0, limit),
+      nextCursor: { txDigest: `digest${index}`, eventSeq: String(index + 1) },
+      hasNextPage,
+    };
+  }
+
+  async queryObligation(obligationId: string): Promise<ObligationInfo> {
+    if (this.failing.has(obligationId)) {
+      throw new Error(`RPC timeout reading ${obligationId}`);
+    }
+    return obligation(obligationId, this.risks[obligationId]);
+  }
+}
+
+test('scan pages through every event and queries each obligation once', async () => {
+  const source = new FakeSource([['0xa', '0xb'], ['0xb', '0xc']], { '0xa': 0.5, '0xb': 1.2, '0xc': 0.9 });
+  const result = await new ObligationScanner(source).scan({ pageSize: 2 });
+
+  assert.deepEqual(result.entries.map(entry => entry.obligationId), ['0xa', '0xb', '0xc']);
+  assert.equal(result.pagesScanned, 2);
+  assert.equal(result.hasNextPage, false);
+  assert.deepEqual(source.eventQueries, [null, { txDigest: 'digest0', eventSeq: '1' }]);
+  // The last cursor is kept so a resumed scan only sees newer events
+  assert.deepEqual(result.nextCursor, { txDigest: 'digest1', eventSeq: '2' });
+});
+
+test('scan records failed queries instead of aborting', async () => {
+  const source = new FakeSource([['0xa', '0xb']], { '0xa': 1.1 }, ['0xb']);
+  const result = await new ObligationScanner(source).scan();
+
+  assert.equal(result.entries[0].info?.riskLevel, 1.1);
+  assert.equal(result.entries[1].info, undefined);
+  assert.match(result.entries[1].error ?? '', /RPC timeout reading 0xb/);
+});
+
+test('scan stops at maxPages and resumes from a cursor', async () => {
+  const source = new FakeSource([['0xa'], ['0xb'], ['0xc']], { '0xa': 0.1, '0xb': 0.2, '0xc': 0.3 });
+  const pages: number[] = [];
+  const first = await new ObligationScanner(source).scan({ maxPages: 1, onPage: (_, index) => pages.push(index) });
+
+  assert.deepEqual(first.entries.map(entry => entry.obligationId), ['0xa']);
+  assert.equal(first.hasNextPage, true);
+  assert.deepEqual(pages, [0]);
+
+  const rest = await new ObligationScanner(source).scan({ cursor: first.nextCursor });
+  assert.deepEqual(rest.entries.map(entry => entry.obligationId), ['0xb', '0xc']);
+});
+
+test('sortByRisk puts the riskiest first and failed queries last', () => {
+  const sorted = sortByRisk([
+    { obligationId: '0xfailed', error: 'boom' },
+    { obligationId: '0xsafe', info: obligation('0xsafe', 0.4) },
+    { obligationId: '0xunderwater', info: obligation('0xunderwater', 1.3) },
+  ]);
+  assert.deepEqual(sorted.map(entry => entry.obligationId), ['0xunderwater', '0xsafe', '0xfailed']);
+});
+
+test('cursors round-trip through their command-line form', () => {
+  const cursor = { txDigest: 'AbC123', eventSeq: '7' };
+  assert.equal(encodeCursor(cursor), 'AbC123:7');
+  assert.deepEqual(decodeCursor('AbC123:7'), cursor);
+  assert.throws(() => decodeCursor('AbC123'), /Invalid cursor/);
+});
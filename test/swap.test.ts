@@ -0,0 +1,100 @@
+/**
+ * Swap checks: MockSwapProvider on its own, and as the liquidator's provider when planning
+ * swapTo and flash-loan liquidations against an in-memory stand-in for the Scallop SDK
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Scallop } from '@scallop-io/sui-scallop-sdk';
+import { ScallopLiquidator } from '../src/liquidator.js';
+import { MockSwapProvider, applySlippage } from '../src/swap.js';
+import type { ObligationInfo } from '../src/types.js';
+
+const COIN_TYPES: Record<string, string> = { usdc: '0x…::usdc::USDC', sui: '0x2::sui::SUI' };
+
+// 1 SUI = $3.50, and the mock swaps slightly below that: 1 raw SUI → 0.0034 raw USDC
+const RATES = { 'sui/usdc': 0.0034 };
+
+/**
+ * Only what planning reads: market pools, flash-loan fees and coin types
+ */
+function fakeScallop(): Scallop {
+  const pools = {
+    usdc: { coinPrice: 1, coinDecimal: 6, borrowWeight: 1, supplyAmount: 1e12, borrowAmount: 5e11, borrowIndex: 1 },
+  };
+  const collaterals = {
+    sui: {
+      coinPrice: 3.5, coinDecimal: 9, collateralFactor: 0.8, liquidationFactor: 0.9,
+      liquidationPenalty: 0.05, liquidationDiscount: 0.04, liquidationReserveFactor: 0.01,
+    },
+  };
+  return {
+    createScallopQuery: async () => ({
+      getMarketPools: async () => ({ pools, collaterals }),
+      getFlashLoanFees: async (coinNames: string[]) => Object.fromEntries(coinNames.map(name => [name, 0.0005])),
+    }),
+    createScallopUtils: async () => ({ parseCoinType: (coinName: string) => COIN_TYPES[coinName] }),
+  } as unknown as Scallop;
+}
+
+// $100 USDC owed against 30 SUI ($105, $94.50 after the liquidation factor)
+const OBLIGATION: ObligationInfo = {
+  obligationId: '0x' + '1'.repeat(64),
+  debts: [{ coinType: COIN_TYPES.usdc, coinName: 'usdc', coinSymbol: 'USDC', coinDisplayName: 'USD Coin', amount: 100e6, amountCoin: 100, valueUsd: 100 }],
+  collaterals: [{ coinType: COIN_TYPES.sui, coinName: 'sui', coinSymbol: 'SUI', coinDisplayName: 'Sui', amount: 30e9, amountCoin: 30, valueUsd: 105 }],
+  riskLevel: 100 / 94.5,
+  totalBorrowedValueWithWeight: 100,
+  totalRequiredCollateralValue: 94.5,
+  isLiquidatable: true,
+};
+
+test('MockSwapProvider quotes from its rates and records the swaps it builds', async () => {
+  const provider = new MockSwapProvider(RATES);
+  const request = { fromCoinName: 'sui', fromCoinType: COIN_TYPES.sui, toCoinName: 'usdc', toCoinType: COIN_TYPES.usdc, amountIn: 10n ** 9n };
+
+  const quote = await provider.quote(request, 100);
+  assert.equal(quote?.amountOut, 3_400_000n);
+  assert.equal(quote?.minAmountOut, applySlippage(3_400_000n, 100));
+  assert.equal(quote?.minAmountOut, 3_366_000n);
+  assert.equal(await provider.quote({ ...request, fromCoinName: 'usdc', toCoinName: 'sui' }, 100), null);
+
+  const coinIn = { $kind: 'Result', Result: 0 } as never;
+  assert.equal(await provider.swap({} as never, quote!, coinIn), coinIn);
+  assert.deepEqual(provider.swaps, [quote]);
+});
+
+test('swapTo values the seized collateral at the quoted swap output', async () => {
+  const liquidator = new ScallopLiquidator(fakeScallop(), { swapProvider: new MockSwapProvider(RATES), wallet: 'none', slippageBps: 50 });
+  const [candidate] = await liquidator.rankLiquidationPairs(OBLIGATION, { swapTo: 'debt' });
+
+  assert.equal(candidate.funding, 'wallet');
+  assert.equal(candidate.swap?.provider, 'mock');
+  assert.equal(candidate.swap?.toCoinName, 'usdc');
+  assert.equal(candidate.swap?.amountIn, candidate.collateralSeized);
+  assert.equal(candidate.swap?.amountOut, BigInt(Math.floor(Number(candidate.collateralSeized) * RATES['sui/usdc'])));
+  assert.equal(candidate.swap?.slippageBps, 50);
+
+  // The quote is $0.10 per SUI under the market price; that gap is counted as slippage
+  assert.ok(candidate.collateralSeized > 0n);
+  const swapOutputUsd = Number(candidate.swap!.amountOut) / 1e6;
+  assert.ok(Math.abs(candidate.profit.slippageUsd - (candidate.profit.collateralValueUsd - swapOutputUsd)) < 1e-6);
+  assert.ok(candidate.profit.slippageUsd > 0);
+});
+
+test('a pair without a swap route keeps the collateral and says why', async () => {
+  const liquidator = new ScallopLiquidator(fakeScallop(), { swapProvider: new MockSwapProvider({}), wallet: 'none' });
+  const [candidate] = await liquidator.rankLiquidationPairs(OBLIGATION, { swapTo: 'usdc' });
+
+  assert.equal(candidate.swap, undefined);
+  assert.equal(candidate.swapNote, 'No swap route from sui to usdc via mock');
+});
+
+test('a flash loan is repaid by swapping the seized collateral', async () => {
+  const liquidator = new ScallopLiquidator(fakeScallop(), { swapProvider: new MockSwapProvider(RATES), wallet: 'none' });
+  const [candidate] = await liquidator.rankLiquidationPairs(OBLIGATION, { flashLoan: true });
+
+  assert.equal(candidate.funding, 'flashloan');
+  assert.equal(candidate.flashLoan?.swap?.provider, 'mock');
+  const owed = candidate.repayAmount + candidate.flashLoan!.fee;
+  assert.ok(candidate.flashLoan!.swap!.minAmountOut >= owed);
+});